@@ -0,0 +1,269 @@
+export type AuditCharClass = 'lower' | 'upper' | 'digit' | 'symbol' | 'whitespace' | 'other';
+
+export type AuditLengthBucket = '0' | '1-7' | '8-15' | '16-31' | '32-63' | '64+';
+
+export type AuditWeakness =
+  | 'empty'
+  | 'common_value'
+  | 'placeholder'
+  | 'too_short'
+  | 'low_entropy'
+  | 'single_char_class'
+  | 'repeated'
+  | 'sequential';
+
+export type AuditKeyResult = {
+  key: string;
+  /** The key name suggests a secret (`*_SECRET`, `*_TOKEN`, `*_KEY`, `*PASSWORD*`, ...). */
+  secretName: boolean;
+  lengthBucket: AuditLengthBucket;
+  /** Shannon entropy of the value times its length, rounded to one decimal. */
+  entropyBits: number;
+  charClasses: AuditCharClass[];
+  weaknesses: AuditWeakness[];
+  /** A secret-named key with at least one weakness. */
+  weak: boolean;
+};
+
+export type AuditResult = {
+  ok: boolean;
+  keys: AuditKeyResult[];
+};
+
+export type AuditOptions = {
+  keysFilter?: RegExp;
+  /** Minimum length for secret-named keys (default 16). */
+  minLength?: number;
+  /** Minimum estimated entropy in bits for secret-named keys (default 56). */
+  minEntropyBits?: number;
+};
+
+const DEFAULT_MIN_LENGTH = 16;
+const DEFAULT_MIN_ENTROPY_BITS = 56;
+
+/** Common passwords and default credentials, compared case-insensitively. */
+const COMMON_VALUES = new Set([
+  '123',
+  '1234',
+  '12345',
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '111111',
+  '000000',
+  'abc123',
+  'admin',
+  'admin123',
+  'administrator',
+  'default',
+  'dragon',
+  'guest',
+  'iloveyou',
+  'letmein',
+  'master',
+  'monkey',
+  'p@ssw0rd',
+  'p@ssword',
+  'pa$$word',
+  'pass',
+  'pass123',
+  'passw0rd',
+  'password',
+  'password1',
+  'password123',
+  'postgres',
+  'qwerty',
+  'qwerty123',
+  'root',
+  'secret',
+  'secret123',
+  'shadow',
+  'sunshine',
+  'superuser',
+  'toor',
+  'trustno1',
+  'welcome',
+  'welcome1'
+]);
+
+/** Values left over from templates and docs, compared case-insensitively. */
+const PLACEHOLDER_VALUES = new Set([
+  'changeme',
+  'change_me',
+  'change-me',
+  'changeit',
+  'replaceme',
+  'replace_me',
+  'replace-me',
+  'todo',
+  'tbd',
+  'fixme',
+  'none',
+  'null',
+  'nil',
+  'undefined',
+  'empty',
+  'example',
+  'sample',
+  'dummy',
+  'test',
+  'testing',
+  'foo',
+  'bar',
+  'foobar',
+  'placeholder',
+  'your-key',
+  'your_key',
+  'your-secret',
+  'your_secret',
+  'your-token',
+  'your_token',
+  'your-api-key',
+  'your_api_key',
+  'secret-key',
+  'secret_key',
+  'mysecret',
+  'my-secret',
+  'my_secret',
+  'supersecret',
+  'xxx'
+]);
+
+const PLACEHOLDER_PATTERNS: readonly RegExp[] = [
+  /^<[^<>]*>$/,
+  /^\[[^[\]]*\]$/,
+  /^\{\{[^{}]*\}\}$/,
+  /^(?:x+|\*+|\.+|-+|_+|#+|0+)$/i,
+  /\byour[-_ ]?[a-z_ -]*[-_ ]?here\b/i,
+  /^(?:insert|enter|put|add|replace|change)[-_ ]?(?:your|the|me|here)\b/i,
+  /^(?:sk|pk)_(?:test|live)_(?:x+|\.+|\*+)$/i
+];
+
+const SECRET_NAME_PATTERNS: readonly RegExp[] = [/(?:^|_)(?:SECRET|TOKEN|KEY)$/i, /PASSWORD|PASSWD|PASSPHRASE/i, /(?:^|_)(?:SECRET|TOKEN|PWD)(?:_|$)/i, /PRIVATE_KEY/i];
+
+const KEYBOARD_RUNS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+export function isSecretKeyName(key: string): boolean {
+  return SECRET_NAME_PATTERNS.some((re) => re.test(key));
+}
+
+/** Coarse length range, safe to report or store alongside fingerprints. */
+export function lengthBucket(length: number): AuditLengthBucket {
+  if (length === 0) return '0';
+  if (length < 8) return '1-7';
+  if (length < 16) return '8-15';
+  if (length < 32) return '16-31';
+  if (length < 64) return '32-63';
+  return '64+';
+}
+
+function charClasses(value: string): AuditCharClass[] {
+  const classes = new Set<AuditCharClass>();
+  for (const c of value) {
+    if (/[a-z]/.test(c)) classes.add('lower');
+    else if (/[A-Z]/.test(c)) classes.add('upper');
+    else if (/[0-9]/.test(c)) classes.add('digit');
+    else if (/\s/.test(c)) classes.add('whitespace');
+    else if (/[\x21-\x7e]/.test(c)) classes.add('symbol');
+    else classes.add('other');
+  }
+  const order: readonly AuditCharClass[] = ['lower', 'upper', 'digit', 'symbol', 'whitespace', 'other'];
+  return order.filter((c) => classes.has(c));
+}
+
+export function estimateEntropyBits(value: string): number {
+  const chars = [...value];
+  if (chars.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const c of chars) counts.set(c, (counts.get(c) ?? 0) + 1);
+
+  let perChar = 0;
+  for (const count of counts.values()) {
+    const p = count / chars.length;
+    perChar -= p * Math.log2(p);
+  }
+  return Math.round(perChar * chars.length * 10) / 10;
+}
+
+function isRepeated(value: string): boolean {
+  return /^(.{1,4})\1{2,}$/s.test(value);
+}
+
+/**
+ * Longest run of consecutive ascending/descending characters (`abcd`, `4321`) or of a keyboard row (`qwer`).
+ * A run counts as a pattern when it is at least four characters and covers a third of the value, so long random
+ * tokens that happen to contain `3456` are not flagged.
+ */
+function hasSequentialRun(value: string): boolean {
+  let longest = 1;
+  let up = 1;
+  let down = 1;
+  for (let i = 1; i < value.length; i++) {
+    const delta = value.charCodeAt(i) - value.charCodeAt(i - 1);
+    up = delta === 1 ? up + 1 : 1;
+    down = delta === -1 ? down + 1 : 1;
+    longest = Math.max(longest, up, down);
+  }
+
+  const lower = value.toLowerCase();
+  for (const row of KEYBOARD_RUNS) {
+    for (let length = row.length; length > longest; length--) {
+      let found = false;
+      for (let i = 0; i + length <= row.length; i++) {
+        if (lower.includes(row.slice(i, i + length))) found = true;
+      }
+      if (found) {
+        longest = length;
+        break;
+      }
+    }
+  }
+
+  return longest >= 4 && longest * 3 >= value.length;
+}
+
+/** Computes safe metrics for one value in-process. The result never contains the value. */
+export function auditValue(key: string, value: string, options: Omit<AuditOptions, 'keysFilter'> = {}): AuditKeyResult {
+  const minLength = options.minLength ?? DEFAULT_MIN_LENGTH;
+  const minEntropyBits = options.minEntropyBits ?? DEFAULT_MIN_ENTROPY_BITS;
+
+  const secretName = isSecretKeyName(key);
+  const entropyBits = estimateEntropyBits(value);
+  const classes = charClasses(value);
+  const normalized = value.trim().toLowerCase();
+
+  const weaknesses: AuditWeakness[] = [];
+  if (value.length === 0) weaknesses.push('empty');
+  else {
+    if (COMMON_VALUES.has(normalized)) weaknesses.push('common_value');
+    if (PLACEHOLDER_VALUES.has(normalized) || PLACEHOLDER_PATTERNS.some((re) => re.test(value.trim()))) weaknesses.push('placeholder');
+    if (value.length < minLength) weaknesses.push('too_short');
+    if (entropyBits < minEntropyBits) weaknesses.push('low_entropy');
+    if (classes.length === 1 && value.length < 32) weaknesses.push('single_char_class');
+    if (isRepeated(value)) weaknesses.push('repeated');
+    if (hasSequentialRun(value)) weaknesses.push('sequential');
+  }
+
+  return {
+    key,
+    secretName,
+    lengthBucket: lengthBucket(value.length),
+    entropyBits,
+    charClasses: classes,
+    weaknesses,
+    weak: secretName && weaknesses.length > 0
+  };
+}
+
+export function auditValues(values: ReadonlyMap<string, string>, options: AuditOptions = {}): AuditResult {
+  const keys: AuditKeyResult[] = [];
+  for (const [key, value] of values) {
+    if (options.keysFilter && !options.keysFilter.test(key)) continue;
+    keys.push(auditValue(key, value, options));
+  }
+  keys.sort((a, b) => a.key.localeCompare(b.key));
+  return { ok: keys.every((k) => !k.weak), keys };
+}
@@ -0,0 +1,97 @@
+/**
+ * BLAKE2b (RFC 7693) with keyed mode. Node's `crypto` only exposes unkeyed `blake2b512`, so this small
+ * implementation backs the `blake2b` fingerprint algorithm. Inputs here are env values, so BigInt
+ * arithmetic is fast enough.
+ */
+
+const MASK = 0xffffffffffffffffn;
+
+const IV = [
+  0x6a09e667f3bcc908n,
+  0xbb67ae8584caa73bn,
+  0x3c6ef372fe94f82bn,
+  0xa54ff53a5f1d36f1n,
+  0x510e527fade682d1n,
+  0x9b05688c2b3e6c1fn,
+  0x1f83d9abfb41bd6bn,
+  0x5be0cd19137e2179n
+];
+
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0]
+];
+
+const BLOCK_BYTES = 128;
+
+export const BLAKE2B_MAX_KEY_BYTES = 64;
+
+function rotr(x: bigint, n: bigint): bigint {
+  return ((x >> n) | (x << (64n - n))) & MASK;
+}
+
+function mix(v: bigint[], a: number, b: number, c: number, d: number, x: bigint, y: bigint): void {
+  v[a] = ((v[a] ?? 0n) + (v[b] ?? 0n) + x) & MASK;
+  v[d] = rotr((v[d] ?? 0n) ^ (v[a] ?? 0n), 32n);
+  v[c] = ((v[c] ?? 0n) + (v[d] ?? 0n)) & MASK;
+  v[b] = rotr((v[b] ?? 0n) ^ (v[c] ?? 0n), 24n);
+  v[a] = ((v[a] ?? 0n) + (v[b] ?? 0n) + y) & MASK;
+  v[d] = rotr((v[d] ?? 0n) ^ (v[a] ?? 0n), 16n);
+  v[c] = ((v[c] ?? 0n) + (v[d] ?? 0n)) & MASK;
+  v[b] = rotr((v[b] ?? 0n) ^ (v[c] ?? 0n), 63n);
+}
+
+function compress(h: bigint[], block: Buffer, counter: bigint, last: boolean): void {
+  const v = [...h, ...IV];
+  v[12] = (v[12] ?? 0n) ^ (counter & MASK);
+  v[13] = (v[13] ?? 0n) ^ (counter >> 64n);
+  if (last) v[14] = (v[14] ?? 0n) ^ MASK;
+
+  const m: bigint[] = [];
+  for (let i = 0; i < 16; i++) m.push(block.readBigUInt64LE(i * 8));
+
+  for (let round = 0; round < 12; round++) {
+    const s = SIGMA[round % 10] ?? [];
+    const word = (i: number) => m[s[i] ?? 0] ?? 0n;
+    mix(v, 0, 4, 8, 12, word(0), word(1));
+    mix(v, 1, 5, 9, 13, word(2), word(3));
+    mix(v, 2, 6, 10, 14, word(4), word(5));
+    mix(v, 3, 7, 11, 15, word(6), word(7));
+    mix(v, 0, 5, 10, 15, word(8), word(9));
+    mix(v, 1, 6, 11, 12, word(10), word(11));
+    mix(v, 2, 7, 8, 13, word(12), word(13));
+    mix(v, 3, 4, 9, 14, word(14), word(15));
+  }
+
+  for (let i = 0; i < 8; i++) h[i] = (h[i] ?? 0n) ^ (v[i] ?? 0n) ^ (v[i + 8] ?? 0n);
+}
+
+/** BLAKE2b of `input`, keyed when `key` is non-empty (at most 64 bytes); `outputLength` is 1..64 bytes. */
+export function blake2b(input: Uint8Array, key: Uint8Array = new Uint8Array(0), outputLength = 64): Uint8Array {
+  if (key.length > BLAKE2B_MAX_KEY_BYTES) throw new Error(`BLAKE2b keys are at most ${BLAKE2B_MAX_KEY_BYTES} bytes`);
+  if (!Number.isInteger(outputLength) || outputLength < 1 || outputLength > 64) throw new Error('BLAKE2b output length must be 1..64 bytes');
+
+  const h = [...IV];
+  h[0] = (h[0] ?? 0n) ^ 0x01010000n ^ (BigInt(key.length) << 8n) ^ BigInt(outputLength);
+
+  const data = key.length > 0 ? Buffer.concat([Buffer.from(key), Buffer.alloc(BLOCK_BYTES - key.length), Buffer.from(input)]) : Buffer.from(input);
+  const blocks = Math.max(1, Math.ceil(data.length / BLOCK_BYTES));
+  for (let i = 0; i < blocks; i++) {
+    const last = i === blocks - 1;
+    const block = Buffer.alloc(BLOCK_BYTES);
+    data.copy(block, 0, i * BLOCK_BYTES, (i + 1) * BLOCK_BYTES);
+    compress(h, block, BigInt(last ? data.length : (i + 1) * BLOCK_BYTES), last);
+  }
+
+  const out = Buffer.alloc(64);
+  h.forEach((word, i) => out.writeBigUInt64LE(word, i * 8));
+  return new Uint8Array(out.subarray(0, outputLength));
+}
@@ -1,9 +1,23 @@
 #!/usr/bin/env node
-import { readFile } from 'node:fs/promises';
-import { EnvSitter, type EnvSitterMatcher } from './envsitter.js';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { pipeline } from 'node:stream/promises';
+import { dirname, join } from 'node:path';
+import { EnvSitter, type EnvSitterMatcher, type InspectedKey, type MatchOptions, type RefingerprintStatus, type StoredFingerprint } from './envsitter.js';
+import { FINGERPRINT_ALGORITHMS, isFingerprintAlgorithm, parseScryptParams, type FingerprintAlgorithm, type ScryptParams } from './fingerprint.js';
+import { diffEnvExampleFile, syncEnvExampleFile } from './file-ops.js';
+import { dotenvLayerFilePaths } from './sources/dotenvLayers.js';
 import { addDotenvKey, annotateDotenvKey, copyDotenvKeys, deleteDotenvKeys, formatDotenv, setDotenvKey, unsetDotenvKey, validateDotenv } from './dotenv/edit.js';
 import { readTextFileOrEmpty, writeTextFileAtomic } from './dotenv/io.js';
+import { isLintRuleId, lintDotenv, type LintRuleId, type LintSeverity } from './dotenv/lint.js';
 import { isExampleEnvFile } from './dotenv/utils.js';
+import { DEFAULT_PRECOMMIT_ALLOWLIST_FILE } from './leaks/staged.js';
+import { importPepper, projectPepperFilePath, resolvePepper, rotatePepper, type PepperOptions, type PepperProvider, type PepperResult } from './pepper.js';
+import { exportPepper, generatePepperIdentity, parsePepperExport, unwrapPepperExport } from './pepper-export.js';
+import { parseDialect, type DotenvDialect } from './dotenv/dialect.js';
+import { parseDotenv } from './dotenv/parse.js';
+import { DEFAULT_LOCK_FILE, isEnvLock, parseEnvLock, readEnvLockFile, stringifyEnvLock } from './lock.js';
+import { DEFAULT_SCHEMA_FILE, inferEnvSchema, parseEnvSchema, readEnvSchemaFile, stringifyEnvSchema, type EnvSchema } from './schema.js';
+import { DEFAULT_DECLARATION_FILE, generateEnvAccessor, generateProcessEnvDeclaration, schemaFromKeys } from './typegen.js';
 
 
 function parseRegex(input: string): RegExp {
@@ -37,15 +51,49 @@ function requireValue<T>(value: T | undefined, message: string): T {
   return value;
 }
 
-function parseMatcher(op: string, candidate: string | undefined): EnvSitterMatcher {
+function parseLintRules(input: string): Partial<Record<LintRuleId, LintSeverity>> {
+  const rules: Partial<Record<LintRuleId, LintSeverity>> = {};
+  for (const part of parseList(input)) {
+    const [rule = '', severity = ''] = part.split('=', 2).map((s) => s.trim());
+    if (!isLintRuleId(rule)) throw new Error(`Unknown lint rule: ${rule}`);
+    if (severity !== 'error' && severity !== 'warning' && severity !== 'off') {
+      throw new Error(`Invalid severity for ${rule}: ${severity}. Expected error, warning or off`);
+    }
+    rules[rule] = severity;
+  }
+  return rules;
+}
+
+function parseMatcher(op: string, candidate: string | undefined, fingerprint: string | undefined): EnvSitterMatcher {
+  if (fingerprint !== undefined && op !== 'is_equal') throw new Error('--fingerprint only applies to --op is_equal');
+
   if (op === 'exists') return { op: 'exists' };
   if (op === 'is_empty') return { op: 'is_empty' };
   if (op === 'is_number') return { op: 'is_number' };
   if (op === 'is_string') return { op: 'is_string' };
   if (op === 'is_boolean') return { op: 'is_boolean' };
+  if (op === 'jwt_expired') return { op: 'jwt_expired' };
+
+  if (op === 'jwt_expires_within') {
+    const days = Number(requireValue(candidate, 'Provide the number of days as --candidate'));
+    if (!Number.isFinite(days) || days < 0) throw new Error('jwt_expires_within expects a non-negative number of days as --candidate');
+    return { op: 'jwt_expires_within', days };
+  }
 
   if (op === 'is_equal') {
-    return { op: 'is_equal', candidate: requireValue(candidate, 'Provide --candidate or --candidate-stdin') };
+    if (fingerprint !== undefined) {
+      if (candidate !== undefined) throw new Error('Provide either a candidate or --fingerprint, not both');
+      return { op: 'is_equal', ...parseStoredFingerprint(fingerprint) };
+    }
+    return { op: 'is_equal', candidate: requireValue(candidate, 'Provide --candidate, --candidate-stdin or --fingerprint') };
+  }
+
+  if (op === 'host_is_equal') {
+    return { op: 'host_is_equal', candidate: requireValue(candidate, 'Provide --candidate or --candidate-stdin') };
+  }
+
+  if (op === 'database_is_equal') {
+    return { op: 'database_is_equal', candidate: requireValue(candidate, 'Provide --candidate or --candidate-stdin') };
   }
 
   if (op === 'partial_match_prefix') {
@@ -61,11 +109,61 @@ function parseMatcher(op: string, candidate: string | undefined): EnvSitterMatch
     return { op: 'partial_match_regex', regex: parseRegex(raw) };
   }
 
+  if (op === 'fingerprint_is_equal') {
+    const stored = parseStoredFingerprint(requireValue(candidate, 'Provide the stored fingerprint as --candidate or --candidate-stdin'));
+    return { op: 'fingerprint_is_equal', ...stored };
+  }
+
   throw new Error(
-    `Unknown --op: ${op}. Expected one of: exists,is_empty,is_equal,partial_match_regex,partial_match_prefix,partial_match_suffix,is_number,is_string,is_boolean`
+    `Unknown --op: ${op}. Expected one of: exists,is_empty,is_equal,partial_match_regex,partial_match_prefix,partial_match_suffix,is_number,is_string,is_boolean,jwt_expired,jwt_expires_within,host_is_equal,database_is_equal,fingerprint_is_equal`
   );
 }
 
+/** A bare `hmac-sha256` fingerprint, or the JSON printed by `fingerprint` (which also carries the pepper ID and algorithm). */
+function parseStoredFingerprint(raw: string): { fingerprint: string; pepperId?: string; algorithm?: FingerprintAlgorithm; params?: ScryptParams } {
+  const trimmed = raw.trim();
+  if (!trimmed.startsWith('{')) return { fingerprint: trimmed };
+
+  const parsed = JSON.parse(trimmed) as { fingerprint?: unknown; pepperId?: unknown; algorithm?: unknown; params?: unknown };
+  if (typeof parsed.fingerprint !== 'string') throw new Error('Stored fingerprint JSON must have a "fingerprint" string');
+  if (parsed.algorithm !== undefined && !isFingerprintAlgorithm(parsed.algorithm)) {
+    throw new Error(`Unsupported fingerprint algorithm: ${String(parsed.algorithm)}`);
+  }
+  return {
+    fingerprint: parsed.fingerprint,
+    ...(typeof parsed.pepperId === 'string' ? { pepperId: parsed.pepperId } : {}),
+    ...(parsed.algorithm !== undefined ? { algorithm: parsed.algorithm } : {}),
+    ...(parsed.algorithm === 'scrypt' ? { params: parseScryptParams(parsed.params) } : {})
+  };
+}
+
+/** Fingerprint manifests hold one `fingerprint` JSON object or an array of them. */
+function parseFingerprintManifest(contents: string, path: string): StoredFingerprint[] {
+  const parsed = JSON.parse(contents) as unknown;
+  const entries = Array.isArray(parsed) ? parsed : [parsed];
+  for (const entry of entries) {
+    const e = entry as Partial<StoredFingerprint> | null;
+    if (!e || typeof e.key !== 'string' || typeof e.fingerprint !== 'string') {
+      throw new Error(`${path}: expected fingerprint objects with "key" and "fingerprint"`);
+    }
+  }
+  return entries as StoredFingerprint[];
+}
+
+function parseNonNegativeInt(raw: string | boolean | undefined, flag: string): number | undefined {
+  if (raw === undefined) return undefined;
+  const n = typeof raw === 'string' ? Number(raw) : NaN;
+  if (!Number.isInteger(n) || n < 0) throw new Error(`${flag} must be a non-negative integer`);
+  return n;
+}
+
+function parsePositiveInt(raw: string | boolean | undefined, flag: string): number | undefined {
+  if (raw === undefined) return undefined;
+  const n = typeof raw === 'string' ? Number(raw) : NaN;
+  if (!Number.isInteger(n) || n < 1) throw new Error(`${flag} must be a positive integer`);
+  return n;
+}
+
 function parseArgs(argv: string[]): { cmd: string; args: string[]; flags: Record<string, string | boolean> } {
   const [cmd = 'help', ...rest] = argv;
   const flags: Record<string, string | boolean> = {};
@@ -118,11 +216,31 @@ function printHelp(): void {
       '',
       'Commands:',
       '  keys --file <path> [--filter-regex <re>]',
-      '  fingerprint --file <path> --key <KEY>',
-      '  match --file <path> (--key <KEY> | --keys <K1,K2> | --all-keys) [--op <op>] [--candidate <value> | --candidate-stdin]',
+      '  fingerprint --file <path> --key <KEY> [--algorithm <alg>] [--slow-keys <re>]',
+      '  match --file <path> (--key <KEY> | --keys <K1,K2> | --all-keys) [--op <op>] [--candidate <value> | --candidate-stdin | --fingerprint <fp|json>]',
       '  match-by-key --file <path> (--candidates-json <json> | --candidates-stdin)',
-      '  scan --file <path> [--keys-regex <re>] [--detect jwt,url,base64]',
-      '  validate --file <path>',
+      '  scan --file <path> [--keys-regex <re>] [--detect <id,...>] [--jwt [--hash-claims]] [--connections] [--pem] [--expiring-within <days>]',
+      '  leaks --file <path> [--root <dir>] [--git] [--keys-regex <re>] [--min-length <n>]',
+      '  precommit --file <path> [--allowlist <path>] [--keys-regex <re>] [--min-length <n>]',
+      '  redact --file <path> [--keys-regex <re>] [--min-length <n>] < input > output',
+      '  snapshot --file <path> [--lock <path>] [--keys-regex <re>] [--algorithm <alg>] [--slow-keys <re>]',
+      '  verify --file <path> [--lock <path>] [--keys-regex <re>]',
+      '  pepper rotate [--grace-days <n>] [--manifest <A,B> --file <path> [--algorithm <alg>] [--slow-keys <re>]]',
+      '  pepper export [--out <path>] (--recipient <public-key.pem> | --passphrase-stdin | --passphrase-env <NAME>)',
+      '  pepper import [--in <path>] (--identity <private-key.pem> | --passphrase-stdin | --passphrase-env <NAME>) [--force]',
+      '  pepper keygen --identity <path>',
+      '  pepper status',
+      '  inspect --file <path> [--keys-regex <re>] [--expiring-within <days>] [--hash-claims]',
+      '  audit --file <path> [--keys-regex <re>] [--min-length <n>] [--min-entropy <bits>]',
+      '  check --file <path> [--schema <path>]',
+      '  schema infer (--file <path> | --files <A,B,C>) [--schema <path>] [--enums] [--write]',
+      '  compare <[name=]path> <[name=]path> [...]',
+      '  diff <old-path> <new-path> [--fail-on changes|removals]',
+      '  example diff --file <path> [--example <path>]',
+      '  example sync --file <path> [--example <path>] [--placeholder <text>] [--write]',
+      '  typegen [--schema <path> | --file <path>] [--out <path>] [--accessor <path>] [--write | --check]',
+      '  validate --file <path> [--expand]',
+      '  lint --file <path> [--rules <rule=error|warning|off,...>] [--fix]',
       '  copy --from <path> --to <path> [--keys <K1,K2>] [--include-regex <re>] [--exclude-regex <re>] [--rename <A=B,C=D>] [--on-conflict error|skip|overwrite] [--write]',
       '  format --file <path> [--mode sections|global] [--sort alpha|none] [--write]',
       '  reorder --file <path> [--mode sections|global] [--sort alpha|none] [--write]',
@@ -132,11 +250,66 @@ function printHelp(): void {
       '  unset --file <path> --key <KEY> [--write]',
       '  delete --file <path> (--key <KEY> | --keys <K1,K2>) [--write]',
       '',
+      'Source options (keys, fingerprint, match, match-by-key, scan, inspect, audit, check, leaks, precommit, redact,\n    snapshot, verify, pepper rotate):',
+      '  --file <path>          Single dotenv file',
+      '  --files <A,B,C>        Layered dotenv files, lowest precedence first',
+      '  --mode <mode> [--dir <path>]',
+      '                         Layers .env, .env.local, .env.<mode>, .env.<mode>.local (missing files skipped)',
+      '  --expand               Expand ${VAR}, ${VAR:-default} and $VAR references (falls back to process env)',
+      '',
+      'Parser options (all commands):',
+      '  --dialect <name>       envsitter (default), dotenv, python-dotenv, docker-compose, bash',
+      '',
       'Pepper options:',
-      '  --pepper-file <path>   Defaults to .envsitter/pepper (auto-created)',
+      '  --pepper-file <path>   Defaults to the nearest .envsitter/pepper up to the repository root (created at the root',
+      '                         when missing); a keyring.json next to it takes precedence',
+      '  --pepper-command <cmd> Read the pepper from a command\'s stdout (run with sh -c), e.g. a secret manager CLI',
+      '  --pepper-fd <n>        Read the pepper from an open file descriptor; --pepper-stdin reads it from stdin',
+      '                         Provider output and ENVSITTER_PEPPER are UTF-8 unless prefixed base64:, hex: or raw:.',
+      '                         Every pepper must be at least 16 bytes and not predictable.',
+      '',
+      'Fingerprint options (fingerprint, snapshot, pepper rotate --manifest):',
+      `  --algorithm <alg>      ${FINGERPRINT_ALGORITHMS.join(', ')} (default hmac-sha256)`,
+      '  --slow-keys <re>       Use scrypt for matching keys (low-entropy values such as PINs and passwords)',
       '',
       'Notes:',
-      '  match --op defaults to is_equal. Ops: exists,is_empty,is_equal,partial_match_regex,partial_match_prefix,partial_match_suffix,is_number,is_string,is_boolean',
+      '  match --op defaults to is_equal. Ops: exists,is_empty,is_equal,partial_match_regex,partial_match_prefix,partial_match_suffix,is_number,is_string,is_boolean,\n    jwt_expired,jwt_expires_within (--candidate <days>),host_is_equal,database_is_equal,\n    fingerprint_is_equal (--candidate <fingerprint> or the JSON printed by fingerprint)',
+      '  match --fingerprint <fp|json> runs is_equal against a stored fingerprint with its recorded algorithm and pepper.',
+      '  schema infer prints the proposed schema unless --write is given; existing key declarations are kept. --enums writes observed values.',
+      '  scan runs every detector unless --detect is given: jwt,url,base64,connection-string,aws-access-key-id,aws-secret-access-key,github-token,',
+      '    github-fine-grained-token,slack-token,slack-webhook,stripe-key,openai-api-key,anthropic-api-key,google-api-key,',
+      '    pem-private-key,ssh-private-key,ssh-public-key',
+      '  scan --jwt decodes JWT headers/payloads (alg, typ, kid, iss, aud, iat/nbf/exp) and reports expired, expiring_soon',
+      '    (default 30 days) and alg_none. --hash-claims replaces iss/aud with HMAC fingerprints.',
+      '  scan --connections analyzes postgres/mysql/mongodb/redis/amqp/sqlite URLs: scheme, embedded credentials, TLS and',
+      '    host class (localhost/private/public). User, password, host and database names are never printed.',
+      '  scan --pem inspects certificates (validity, days until expiry, key algorithm/size) and private keys (encryption,',
+      '    matching certificate in another key).',
+      '  leaks walks --root (default .) honouring .gitignore and reports file:line:column and key name wherever a value of',
+      '    at least --min-length (default 8) characters appears raw, base64, URL-encoded or JSON-escaped; exits 1 on findings.',
+      '  leaks --git checks the local repository history on all refs instead: commits that added non-example .env* files',
+      '    (ENV_FILE lines) and commits that introduced a blob containing a current value. Runs offline with the git CLI.',
+      '  precommit checks the git staged index: blocks non-example .env* files and the pepper/keyring, and reports',
+      '    path:line:column and key name for staged content holding a value; exits 1 when the commit should be stopped.',
+      `    Exceptions go in ${DEFAULT_PRECOMMIT_ALLOWLIST_FILE} (one "<path pattern> [KEY1,KEY2]" per line).`,
+      `  snapshot writes ${DEFAULT_LOCK_FILE} (or --lock): per key fingerprint, pepper ID, length bucket and shape; no values.`,
+      '  verify compares the source with the lock file: ADDED, REMOVED, CHANGED or UNVERIFIABLE (pepper not available) per key;',
+      '    exits 1 on any drift.',
+      '  pepper rotate makes a new keyring pepper active; fingerprints from the old one still verify for --grace-days (default 30).',
+      '    --manifest files (lock files or fingerprint JSON) are re-checked against the source and rewritten under the new pepper.',
+      '  pepper status prints where the pepper comes from and its pepper ID; the pepper itself is never shown.',
+      '  pepper export encrypts the active pepper (AES-256-GCM) with a passphrase (scrypt) or for an X25519 public key from',
+      '    pepper keygen; pepper import decrypts it into the pepper file (mode 0600). Weak passphrases and peppers are refused.',
+      '  redact copies stdin to stdout, replacing values of at least --min-length (default 8) characters, raw or encoded,',
+      '    with [REDACTED:KEY]. Values split across chunks are still caught.',
+      '  inspect runs the JWT, connection-string and PEM inspectors on every value; exits 1 on expired, expiring, not yet',
+      '    valid, alg none or weak-key findings.',
+      '  compare prints a key x environment table: a letter per distinct value (same letter = same value), - when missing.',
+      '  diff exits 1 when any key was added, removed or changed (--fail-on removals: only when keys were removed).',
+      '  example compares a real env file with its example (default: .env.example next to --file); values equal to the real ones are flagged.',
+      `  typegen uses --schema (or ${DEFAULT_SCHEMA_FILE} when present), otherwise the keys of the source. Dry-run unless --write; --check exits 1 when output is stale.`,
+      '  audit flags secret-named keys (*_SECRET, *_TOKEN, *_KEY, *PASSWORD*) whose values are weak; exits 1 when any is found.',
+      `  check reads ${DEFAULT_SCHEMA_FILE} by default and reports PASS/FAIL with a reason code per key, never values.`,
       '  Values passed via argv may end up in shell history. Prefer --value-stdin or --candidate-stdin.',
       '  Mutation commands (add, set, unset, delete) are dry-run unless --write is provided.',
       ''
@@ -144,21 +317,133 @@ function printHelp(): void {
   );
 }
 
-function getPepperOptions(flags: Record<string, string | boolean>): { pepperFilePath?: string } | undefined {
-  const pepperFile = flags['pepper-file'];
-  if (typeof pepperFile === 'string' && pepperFile.length > 0) {
-    return { pepperFilePath: pepperFile };
+/** `--pepper-command` runs through `sh -c`; `--pepper-stdin` is `--pepper-fd 0`. */
+function pepperProviderFromFlags(flags: Record<string, string | boolean>): PepperProvider | undefined {
+  const command = typeof flags['pepper-command'] === 'string' ? flags['pepper-command'] : undefined;
+  const fd = flags['pepper-stdin'] === true ? 0 : parseNonNegativeInt(flags['pepper-fd'], '--pepper-fd');
+  if (command !== undefined && fd !== undefined) throw new Error('Use only one of --pepper-command, --pepper-fd and --pepper-stdin');
+  if (fd === 0 && Object.entries(flags).some(([name, value]) => name !== 'pepper-stdin' && name.endsWith('-stdin') && value === true)) {
+    throw new Error('--pepper-stdin cannot be combined with another stdin input');
   }
+
+  if (command !== undefined) return { type: 'command', command: '/bin/sh', args: ['-c', command] };
+  if (fd !== undefined) return { type: 'fd', fd };
   return undefined;
 }
 
-function pepperMatchOptions(pepperFilePath: string | undefined): { pepper?: { pepperFilePath: string } } {
-  if (pepperFilePath) return { pepper: { pepperFilePath } };
-  return {};
+function getPepperOptions(flags: Record<string, string | boolean>): PepperOptions | undefined {
+  const pepperFile = flags['pepper-file'];
+  const provider = pepperProviderFromFlags(flags);
+  if (provider === undefined && !(typeof pepperFile === 'string' && pepperFile.length > 0)) return undefined;
+  return {
+    ...(typeof pepperFile === 'string' && pepperFile.length > 0 ? { pepperFilePath: pepperFile } : {}),
+    ...(provider ? { provider } : {})
+  };
+}
+
+/** `pepper rotate` and `pepper import` manage the pepper file and keyring, which a provider or ENVSITTER_PEPPER would shadow. */
+function requireFilePepper(flags: Record<string, string | boolean>, action: string): void {
+  if (pepperProviderFromFlags(flags)) throw new Error(`The pepper comes from a --pepper-* provider; ${action} it where it is stored`);
+  if (process.env.ENVSITTER_PEPPER || process.env.ENV_SITTER_PEPPER) {
+    throw new Error(`The pepper comes from ENVSITTER_PEPPER; ${action} it where that variable is set`);
+  }
+}
+
+function dialectOption(flags: Record<string, string | boolean>): { dialect?: DotenvDialect } {
+  const raw = flags['dialect'];
+  return typeof raw === 'string' ? { dialect: parseDialect(raw) } : {};
+}
+
+function sourceOptionsFromFlags(flags: Record<string, string | boolean>): { expand?: boolean; dialect?: DotenvDialect } {
+  return { ...(flags['expand'] === true ? { expand: true } : {}), ...dialectOption(flags) };
+}
+
+function envSitterFromFlags(flags: Record<string, string | boolean>): EnvSitter {
+  const sourceOptions = sourceOptionsFromFlags(flags);
+
+  const filesRaw = typeof flags['files'] === 'string' ? flags['files'] : undefined;
+  if (filesRaw) return EnvSitter.fromDotenvLayers(parseList(filesRaw), sourceOptions);
+
+  const mode = typeof flags['mode'] === 'string' ? flags['mode'] : undefined;
+  if (mode) {
+    const dir = typeof flags['dir'] === 'string' ? flags['dir'] : '.';
+    return EnvSitter.fromDotenvLayers(dotenvLayerFilePaths(mode, dir), { allowMissing: true, ...sourceOptions });
+  }
+
+  const file = requireValue(typeof flags['file'] === 'string' ? flags['file'] : undefined, '--file, --files, or --mode is required');
+  return EnvSitter.fromDotenvFile(file, sourceOptions);
+}
+
+/** The env files a flag-built source reads, so leak scans can skip them. */
+function sourceFilePathsFromFlags(flags: Record<string, string | boolean>): string[] {
+  if (typeof flags['files'] === 'string') return parseList(flags['files']);
+  if (typeof flags['mode'] === 'string') return dotenvLayerFilePaths(flags['mode'], typeof flags['dir'] === 'string' ? flags['dir'] : '.');
+  return typeof flags['file'] === 'string' ? [flags['file']] : [];
+}
+
+function pepperMatchOptions(pepper: PepperOptions | undefined): { pepper?: PepperOptions } {
+  return pepper ? { pepper } : {};
+}
+
+/** `--passphrase-stdin` (one line) or `--passphrase-env <NAME>`; never argv, which ends up in shell history. */
+async function passphraseFromFlags(flags: Record<string, string | boolean>): Promise<string | undefined> {
+  if (flags['passphrase-stdin'] === true) return (await readStdinText()).replace(/\r?\n$/, '');
+  const envName = flags['passphrase-env'];
+  if (typeof envName !== 'string') return undefined;
+  const value = process.env[envName];
+  if (!value) throw new Error(`${envName} is not set`);
+  return value;
+}
+
+function parseFingerprintAlgorithm(raw: string): FingerprintAlgorithm {
+  if (!isFingerprintAlgorithm(raw)) throw new Error(`Unknown --algorithm: ${raw}. Expected one of: ${FINGERPRINT_ALGORITHMS.join(',')}`);
+  return raw;
+}
+
+/** `--algorithm` for every key, `--slow-keys <re>` for scrypt on the keys it matches. */
+function algorithmOptionsFromFlags(flags: Record<string, string | boolean>): Pick<MatchOptions, 'algorithm' | 'algorithmRules'> {
+  const algorithm = typeof flags['algorithm'] === 'string' ? parseFingerprintAlgorithm(flags['algorithm']) : undefined;
+  const slowKeys = typeof flags['slow-keys'] === 'string' ? parseRegex(flags['slow-keys']) : undefined;
+  return {
+    ...(algorithm ? { algorithm: { algorithm } } : {}),
+    ...(slowKeys ? { algorithmRules: [{ keys: slowKeys, algorithm: { algorithm: 'scrypt' } }] } : {})
+  };
+}
+
+function describeInspection(item: InspectedKey): string[] {
+  const flagged = (findings: readonly string[]) => (findings.length > 0 ? ` [${findings.join(', ')}]` : '');
+  const keyInfo = (info: { keyAlgorithm?: string; keySize?: number; curve?: string }) =>
+    [info.keyAlgorithm ?? 'unknown', info.curve, info.keySize !== undefined ? `${info.keySize}-bit` : undefined].filter(Boolean).join(' ');
+  const lines: string[] = [];
+
+  if (item.certificate) {
+    const c = item.certificate;
+    const extras = [c.selfSigned ? 'self-signed' : undefined, c.ca ? 'CA' : undefined, c.chainLength > 1 ? `chain of ${c.chainLength}` : undefined].filter(Boolean);
+    lines.push(
+      `${item.key} certificate ${keyInfo(c)}, valid ${c.validFrom} .. ${c.validTo} (${c.daysUntilExpiry} days left)` +
+        `${extras.length > 0 ? `, ${extras.join(', ')}` : ''}${flagged(c.findings)}`
+    );
+  }
+  if (item.privateKey) {
+    const k = item.privateKey;
+    const matches = k.matchesCertificateIn.length > 0 ? `, matches ${k.matchesCertificateIn.join(',')}` : '';
+    lines.push(`${item.key} private-key ${k.encrypted ? 'encrypted' : keyInfo(k)} ${k.format}${k.encrypted ? '' : ', unencrypted'}${matches}${flagged(k.findings)}`);
+  }
+  if (item.jwt) {
+    const j = item.jwt;
+    const parts = [`alg=${j.alg ?? '?'}`, j.kid !== undefined ? `kid=${j.kid}` : undefined, j.expiresAt ? `exp ${j.expiresAt}` : 'no exp'].filter(Boolean);
+    lines.push(`${item.key} jwt ${parts.join(', ')}${flagged(j.findings)}`);
+  }
+  if (item.connection) {
+    const c = item.connection;
+    const credentials = c.hasPassword ? 'password' : c.hasCredentials ? 'user' : 'no credentials';
+    lines.push(`${item.key} connection ${c.scheme}, ${credentials}, tls ${c.tls}, ${c.hostClass} host${c.hostCount > 1 ? ` (${c.hostCount} hosts)` : ''}`);
+  }
+  return lines;
 }
 
 async function run(): Promise<number> {
-  const { cmd, flags } = parseArgs(process.argv.slice(2));
+  const { cmd, args, flags } = parseArgs(process.argv.slice(2));
 
   if (cmd === 'help' || cmd === '--help' || cmd === '-h') {
     printHelp();
@@ -166,11 +451,12 @@ async function run(): Promise<number> {
   }
 
   const json = flags['json'] === true;
+  const dialect = dialectOption(flags);
 
   if (cmd === 'validate') {
     const file = requireValue(typeof flags['file'] === 'string' ? flags['file'] : undefined, '--file is required');
     const contents = await readFile(file, 'utf8');
-    const result = validateDotenv(contents);
+    const result = validateDotenv(contents, { expand: flags['expand'] === true, ...dialect });
 
     if (json) jsonOut(result);
     else {
@@ -185,6 +471,207 @@ async function run(): Promise<number> {
     return result.ok ? 0 : 2;
   }
 
+  if (cmd === 'lint') {
+    const file = requireValue(typeof flags['file'] === 'string' ? flags['file'] : undefined, '--file is required');
+    const rulesRaw = typeof flags['rules'] === 'string' ? flags['rules'] : undefined;
+    const fix = flags['fix'] === true;
+
+    const contents = await readFile(file, 'utf8');
+    const result = lintDotenv({ contents, fix, ...(rulesRaw ? { rules: parseLintRules(rulesRaw) } : {}), ...dialect });
+
+    if (fix && result.hasChanges) await writeTextFileAtomic(file, result.output);
+
+    const ok = !result.findings.some((f) => f.severity === 'error');
+    if (json) {
+      jsonOut({ file, ok, fix, fixed: result.fixed, wrote: fix && result.hasChanges, findings: result.findings });
+    } else {
+      for (const f of result.findings) {
+        process.stdout.write(`L${f.line}:C${f.column}: ${f.severity} ${f.rule}: ${f.message}\n`);
+      }
+      if (fix && result.fixed > 0) process.stdout.write(`Fixed ${result.fixed} finding(s).\n`);
+      if (result.findings.length === 0) process.stdout.write('OK\n');
+    }
+
+    return ok ? 0 : 2;
+  }
+
+  if (cmd === 'schema' && args[0] === 'infer') {
+    const filesRaw = typeof flags['files'] === 'string' ? flags['files'] : typeof flags['file'] === 'string' ? flags['file'] : undefined;
+    const files = parseList(requireValue(filesRaw, '--file or --files is required'));
+    const schemaPath = typeof flags['schema'] === 'string' ? flags['schema'] : DEFAULT_SCHEMA_FILE;
+
+    const valueSets: Array<ReadonlyMap<string, string>> = [];
+    for (const file of files) {
+      const parsed = parseDotenv(await readFile(file, 'utf8'), dialect);
+      if (parsed.errors.length > 0) {
+        throw new Error(`Invalid dotenv file ${file}: ${parsed.errors.map((e) => `L${e.line}: ${e.message}`).join(', ')}`);
+      }
+      valueSets.push(parsed.values);
+    }
+
+    const existingRaw = await readTextFileOrEmpty(schemaPath);
+    let existing: unknown;
+    if (existingRaw.trim().length > 0) {
+      try {
+        existing = JSON.parse(existingRaw);
+      } catch {
+        throw new Error(`Schema file is not valid JSON: ${schemaPath}`);
+      }
+    }
+
+    const result = inferEnvSchema(valueSets, {
+      ...(existing !== undefined ? { existing: parseEnvSchema(existing) } : {}),
+      ...(flags['enums'] === true ? { enums: true } : {})
+    });
+    const output = stringifyEnvSchema(result.schema);
+    const willWrite = flags['write'] === true;
+    const hasChanges = output !== existingRaw;
+    if (willWrite && hasChanges) await writeTextFileAtomic(schemaPath, output);
+
+    if (json) jsonOut({ schemaPath, files, willWrite, wrote: willWrite && hasChanges, hasChanges, added: result.added, kept: result.kept, schema: result.schema });
+    else if (willWrite) process.stdout.write(`${hasChanges ? 'Wrote' : 'Unchanged'} ${schemaPath} (${result.added.length} added, ${result.kept.length} kept)\n`);
+    else process.stdout.write(output);
+
+    return 0;
+  }
+
+  if (cmd === 'compare') {
+    if (args.length < 2) throw new Error('compare needs at least two sources: compare [name=]path [name=]path ...');
+
+    const sourceOptions = sourceOptionsFromFlags(flags);
+    const sources = args.map((arg) => {
+      const eq = arg.indexOf('=');
+      const name = eq > 0 ? arg.slice(0, eq) : arg;
+      const file = eq > 0 ? arg.slice(eq + 1) : arg;
+      return { name, envsitter: EnvSitter.fromDotenvFile(file, sourceOptions) };
+    });
+
+    const pepper = getPepperOptions(flags);
+    const comparison = await EnvSitter.compare(sources, pepperMatchOptions(pepper));
+
+    if (json) jsonOut(comparison);
+    else {
+      const header = ['KEY', ...comparison.environments];
+      const rows = comparison.keys.map((row) => [
+        row.key,
+        ...comparison.environments.map((name) => {
+          const cell = row.cells[name];
+          if (!cell?.present) return '-';
+          return cell.empty ? 'empty' : `${cell.group} ${cell.shape}`;
+        })
+      ]);
+      const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => (r[i] ?? '').length)));
+      for (const r of [header, ...rows]) {
+        process.stdout.write(`${r.map((c, i) => c.padEnd(widths[i] ?? 0)).join('  ').trimEnd()}\n`);
+      }
+      for (const row of comparison.keys) {
+        for (const shared of row.sharedIn) process.stdout.write(`SHARED ${row.key}: ${shared.join(', ')}\n`);
+      }
+    }
+
+    return 0;
+  }
+
+  if (cmd === 'diff') {
+    const [oldFile, newFile] = args;
+    if (!oldFile || !newFile) throw new Error('diff needs two sources: diff <old-path> <new-path>');
+
+    const failOnRaw = typeof flags['fail-on'] === 'string' ? flags['fail-on'] : 'changes';
+    if (failOnRaw !== 'changes' && failOnRaw !== 'removals') throw new Error(`Invalid --fail-on: ${failOnRaw}. Expected changes or removals`);
+
+    const sourceOptions = sourceOptionsFromFlags(flags);
+    const pepper = getPepperOptions(flags);
+    const diff = await EnvSitter.fromDotenvFile(oldFile, sourceOptions).diff(EnvSitter.fromDotenvFile(newFile, sourceOptions), pepperMatchOptions(pepper));
+
+    if (json) jsonOut({ from: oldFile, to: newFile, ...diff });
+    else {
+      const at = (line: number | undefined) => (line !== undefined ? `L${line}` : '?');
+      for (const e of diff.entries) {
+        const notes = [
+          ...(e.quoteChanged ? [`quote ${e.before?.quote} -> ${e.after?.quote}`] : []),
+          ...(e.exportChanged ? [e.after?.exported ? 'export added' : 'export removed'] : [])
+        ];
+        const suffix = notes.length > 0 ? ` (${notes.join(', ')})` : '';
+
+        if (e.status === 'added') process.stdout.write(`+ ${e.key} ${at(e.after?.line)}\n`);
+        else if (e.status === 'removed') process.stdout.write(`- ${e.key} ${at(e.before?.line)}\n`);
+        else if (e.status === 'changed') process.stdout.write(`~ ${e.key} ${at(e.before?.line)} -> ${at(e.after?.line)}${suffix}\n`);
+        else if (notes.length > 0) process.stdout.write(`. ${e.key} ${at(e.before?.line)} -> ${at(e.after?.line)}${suffix}\n`);
+      }
+      process.stdout.write(`${diff.added} added, ${diff.removed} removed, ${diff.changed} changed, ${diff.unchanged} unchanged\n`);
+    }
+
+    return (failOnRaw === 'removals' ? diff.hasRemovals : diff.hasChanges) ? 1 : 0;
+  }
+
+  if (cmd === 'example' && (args[0] === 'diff' || args[0] === 'sync')) {
+    const file = requireValue(typeof flags['file'] === 'string' ? flags['file'] : undefined, '--file is required');
+    const example = typeof flags['example'] === 'string' ? flags['example'] : join(dirname(file), '.env.example');
+    const pepper = getPepperOptions(flags);
+
+    if (args[0] === 'diff') {
+      const result = await diffEnvExampleFile({ file, example, ...(pepper ? { pepper } : {}), ...dialect });
+      if (json) jsonOut(result);
+      else {
+        for (const m of result.missing) process.stdout.write(`MISSING ${m.key} (${file}:${m.line})\n`);
+        for (const e of result.extra) process.stdout.write(`EXTRA ${e.key} (${example}:${e.line})\n`);
+        for (const s of result.sameAsReal) process.stdout.write(`SAME_AS_REAL ${s.key} (${example}:${s.line})\n`);
+        if (result.ok) process.stdout.write('OK\n');
+      }
+      return result.ok ? 0 : 1;
+    }
+
+    const placeholder = typeof flags['placeholder'] === 'string' ? flags['placeholder'] : undefined;
+    const result = await syncEnvExampleFile({
+      file,
+      example,
+      write: flags['write'] === true,
+      ...(placeholder !== undefined ? { placeholder } : {}),
+      ...(pepper ? { pepper } : {}),
+      ...dialect
+    });
+
+    if (json) jsonOut(result);
+    else {
+      for (const p of result.plan) process.stdout.write(`${result.wrote ? 'ADDED' : 'WOULD_ADD'} ${p.key} (${example}:${p.line})\n`);
+      for (const e of result.extra) process.stdout.write(`EXTRA ${e.key} (${example}:${e.line})\n`);
+      for (const s of result.sameAsReal) process.stdout.write(`SAME_AS_REAL ${s.key} (${example}:${s.line})\n`);
+      if (!result.hasChanges) process.stdout.write('No missing keys\n');
+    }
+    return result.sameAsReal.length > 0 ? 1 : 0;
+  }
+
+  if (cmd === 'typegen') {
+    const schemaFlag = typeof flags['schema'] === 'string' ? flags['schema'] : undefined;
+    const hasSource = typeof flags['file'] === 'string' || typeof flags['files'] === 'string' || typeof flags['mode'] === 'string';
+    const schemaPath = schemaFlag ?? (!hasSource && (await readTextFileOrEmpty(DEFAULT_SCHEMA_FILE)).length > 0 ? DEFAULT_SCHEMA_FILE : undefined);
+
+    const schema: EnvSchema = schemaPath ? await readEnvSchemaFile(schemaPath) : schemaFromKeys(await envSitterFromFlags(flags).listKeys());
+
+    const outputs = [{ file: typeof flags['out'] === 'string' ? flags['out'] : DEFAULT_DECLARATION_FILE, contents: generateProcessEnvDeclaration(schema) }];
+    if (typeof flags['accessor'] === 'string') outputs.push({ file: flags['accessor'], contents: generateEnvAccessor(schema) });
+
+    const check = flags['check'] === true;
+    const willWrite = !check && flags['write'] === true;
+    const results: Array<{ file: string; upToDate: boolean; wrote: boolean }> = [];
+    for (const output of outputs) {
+      const upToDate = (await readTextFileOrEmpty(output.file)) === output.contents;
+      if (willWrite && !upToDate) await writeTextFileAtomic(output.file, output.contents);
+      results.push({ file: output.file, upToDate, wrote: willWrite && !upToDate });
+    }
+
+    const stale = results.filter((r) => !r.upToDate);
+    if (json) jsonOut({ ...(schemaPath ? { schema: schemaPath } : {}), check, willWrite, keys: Object.keys(schema.keys).length, files: results });
+    else {
+      for (const r of results) {
+        const status = r.upToDate ? 'Up to date' : check ? 'Out of date' : willWrite ? 'Wrote' : 'Would write';
+        process.stdout.write(`${status}: ${r.file}\n`);
+      }
+    }
+
+    return check && stale.length > 0 ? 1 : 0;
+  }
+
   if (cmd === 'copy') {
     const from = requireValue(typeof flags['from'] === 'string' ? flags['from'] : undefined, '--from is required');
     const to = requireValue(typeof flags['to'] === 'string' ? flags['to'] : undefined, '--to is required');
@@ -207,7 +694,8 @@ async function run(): Promise<number> {
       ...(includeRaw ? { include: parseRegex(includeRaw) } : {}),
       ...(excludeRaw ? { exclude: parseRegex(excludeRaw) } : {}),
       ...(renameRaw ? { rename: renameRaw } : {}),
-      onConflict
+      onConflict,
+      ...dialect
     });
 
     const conflicts = result.plan.filter((p) => p.action === 'conflict');
@@ -245,11 +733,13 @@ async function run(): Promise<number> {
     const modeRaw = typeof flags['mode'] === 'string' ? flags['mode'] : 'sections';
     const sortRaw = typeof flags['sort'] === 'string' ? flags['sort'] : 'alpha';
 
-    const mode = modeRaw === 'global' ? 'global' : 'sections';
+    // Here --mode is the layout, not the layered-source mode: format only ever reads --file.
+    if (modeRaw !== 'sections' && modeRaw !== 'global') throw new Error(`Invalid --mode for ${cmd}: ${modeRaw}. Expected sections or global`);
+    const mode = modeRaw;
     const sort = sortRaw === 'none' ? 'none' : 'alpha';
 
     const contents = await readFile(file, 'utf8');
-    const result = formatDotenv({ contents, mode, sort });
+    const result = formatDotenv({ contents, mode, sort, ...dialect });
 
     const willWrite = flags['write'] === true;
     if (willWrite && result.hasChanges) await writeTextFileAtomic(file, result.output);
@@ -271,7 +761,7 @@ async function run(): Promise<number> {
     const line = lineRaw ? Number(lineRaw) : undefined;
 
     const contents = await readFile(file, 'utf8');
-    const result = annotateDotenvKey({ contents, key, comment, ...(line ? { line } : {}) });
+    const result = annotateDotenvKey({ contents, key, comment, ...(line ? { line } : {}), ...dialect });
 
     const willWrite = flags['write'] === true;
     if (willWrite && result.hasChanges) await writeTextFileAtomic(file, result.output);
@@ -296,7 +786,7 @@ async function run(): Promise<number> {
     const value = valueStdin ?? valueArg ?? '';
 
     const contents = await readTextFileOrEmpty(file);
-    const result = addDotenvKey({ contents, key, value });
+    const result = addDotenvKey({ contents, key, value, ...dialect });
 
     const willWrite = flags['write'] === true;
     if (willWrite && result.hasChanges) await writeTextFileAtomic(file, result.output);
@@ -321,7 +811,7 @@ async function run(): Promise<number> {
     const value = valueStdin ?? valueArg ?? '';
 
     const contents = await readTextFileOrEmpty(file);
-    const result = setDotenvKey({ contents, key, value });
+    const result = setDotenvKey({ contents, key, value, ...dialect });
 
     const willWrite = flags['write'] === true;
     if (willWrite && result.hasChanges) await writeTextFileAtomic(file, result.output);
@@ -342,7 +832,7 @@ async function run(): Promise<number> {
     warnIfExampleFile(file, noExampleWarning);
 
     const contents = await readFile(file, 'utf8');
-    const result = unsetDotenvKey({ contents, key });
+    const result = unsetDotenvKey({ contents, key, ...dialect });
 
     const willWrite = flags['write'] === true;
     if (willWrite && result.hasChanges) await writeTextFileAtomic(file, result.output);
@@ -368,7 +858,7 @@ async function run(): Promise<number> {
     if (!keys || keys.length === 0) throw new Error('Provide --key or --keys');
 
     const contents = await readFile(file, 'utf8');
-    const result = deleteDotenvKeys({ contents, keys });
+    const result = deleteDotenvKeys({ contents, keys, ...dialect });
 
     const willWrite = flags['write'] === true;
     if (willWrite && result.hasChanges) await writeTextFileAtomic(file, result.output);
@@ -385,23 +875,178 @@ async function run(): Promise<number> {
     return allNotFound ? 2 : 0;
   }
 
-  const file = requireValue(typeof flags['file'] === 'string' ? flags['file'] : undefined, '--file is required');
+  if (cmd === 'pepper' && args[0] === 'status') {
+    const options = getPepperOptions(flags);
+    let resolved: PepperResult;
+    try {
+      resolved = await resolvePepper({ ...options, createIfMissing: false });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      const path = options?.pepperFilePath ?? (await projectPepperFilePath());
+      if (json) jsonOut({ source: 'none', pepperFilePath: path });
+      else process.stdout.write(`No pepper yet; the first fingerprint creates ${path}\n`);
+      return 1;
+    }
+
+    const retired = resolved.retired.map((r) => ({ pepperId: r.pepperId, acceptUntil: r.acceptUntil }));
+    if (json) {
+      jsonOut({
+        source: resolved.source,
+        pepperId: resolved.pepperId,
+        ...(resolved.pepperFilePath ? { pepperFilePath: resolved.pepperFilePath } : {}),
+        ...(resolved.envVarName ? { envVarName: resolved.envVarName } : {}),
+        retired
+      });
+    } else {
+      const where = resolved.pepperFilePath ?? resolved.envVarName;
+      process.stdout.write(`Source: ${resolved.source}${where ? ` (${where})` : ''}\n`);
+      process.stdout.write(`Pepper ID: ${resolved.pepperId}\n`);
+      for (const r of retired) process.stdout.write(`Retired: ${r.pepperId} (accepted until ${r.acceptUntil})\n`);
+    }
+    return 0;
+  }
+
+  if (cmd === 'pepper' && args[0] === 'rotate') {
+    requireFilePepper(flags, 'rotate');
+
+    const pepper = getPepperOptions(flags);
+    const graceDays = parsePositiveInt(flags['grace-days'], '--grace-days');
+    const matchOptions = { ...pepperMatchOptions(pepper), ...algorithmOptionsFromFlags(flags) };
+    const manifestPaths = typeof flags['manifest'] === 'string' ? parseList(flags['manifest']) : [];
+
+    // Manifests and the source are read before rotating, so a bad path fails without changing the pepper.
+    const manifests = await Promise.all(
+      manifestPaths.map(async (path) => {
+        const contents = await readFile(path, 'utf8');
+        const parsed = JSON.parse(contents) as unknown;
+        if (isEnvLock(parsed)) return { path, lock: parseEnvLock(parsed) };
+        return { path, single: !Array.isArray(parsed), stored: parseFingerprintManifest(contents, path) };
+      })
+    );
+    const envsitter = manifests.length > 0 ? envSitterFromFlags(flags) : undefined;
+    if (envsitter) await envsitter.listKeys();
+
+    const rotation = await rotatePepper({ ...pepper, ...(graceDays !== undefined ? { graceDays } : {}) });
+
+    const reports: Array<{ manifest: string; statuses: Array<{ key: string; status: RefingerprintStatus }> }> = [];
+    if (envsitter) {
+      for (const manifest of manifests) {
+        if ('lock' in manifest) {
+          const result = await envsitter.refingerprintLock(manifest.lock, matchOptions);
+          await writeTextFileAtomic(manifest.path, stringifyEnvLock(result.lock));
+          reports.push({ manifest: manifest.path, statuses: result.statuses });
+          continue;
+        }
+        const result = await envsitter.refingerprint(manifest.stored, matchOptions);
+        await writeTextFileAtomic(manifest.path, `${JSON.stringify(manifest.single ? result.fingerprints[0] : result.fingerprints, null, 2)}\n`);
+        reports.push({ manifest: manifest.path, statuses: result.statuses });
+      }
+    }
+    const unresolved = reports.some((r) => r.statuses.some((s) => s.status === 'stale' || s.status === 'missing'));
+
+    if (json) jsonOut({ ...rotation, manifests: reports });
+    else {
+      const retired = rotation.retiredPepperId ? `, retired ${rotation.retiredPepperId} (accepted until ${rotation.acceptUntil})` : '';
+      process.stdout.write(`ROTATED active pepper ${rotation.activePepperId}${retired}\n`);
+      if (rotation.droppedPepperIds.length > 0) process.stdout.write(`DROPPED expired peppers ${rotation.droppedPepperIds.join(', ')}\n`);
+      for (const report of reports) {
+        const count = (status: RefingerprintStatus) => report.statuses.filter((s) => s.status === status).length;
+        process.stdout.write(`${report.manifest}: ${count('rekeyed')} rekeyed, ${count('current')} current, ${count('stale')} stale, ${count('missing')} missing\n`);
+        for (const s of report.statuses) {
+          if (s.status === 'stale' || s.status === 'missing') process.stdout.write(`  ${s.status.toUpperCase()} ${s.key}\n`);
+        }
+      }
+    }
+
+    return unresolved ? 1 : 0;
+  }
+
+  if (cmd === 'pepper' && args[0] === 'keygen') {
+    const identityPath = requireValue(typeof flags['identity'] === 'string' ? flags['identity'] : undefined, '--identity <path> is required');
+    const identity = generatePepperIdentity();
+    await mkdir(dirname(identityPath), { recursive: true });
+    try {
+      await writeFile(identityPath, identity.privateKeyPem, { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') throw new Error(`${identityPath} already exists; keygen never overwrites an identity`);
+      throw error;
+    }
+
+    if (json) jsonOut({ identity: identityPath, publicKey: identity.publicKeyPem });
+    else process.stdout.write(identity.publicKeyPem);
+    return 0;
+  }
+
+  if (cmd === 'pepper' && args[0] === 'export') {
+    const recipientPath = typeof flags['recipient'] === 'string' ? flags['recipient'] : undefined;
+    const outPath = typeof flags['out'] === 'string' ? flags['out'] : undefined;
+    const passphrase = recipientPath === undefined ? await passphraseFromFlags(flags) : undefined;
+    const wrap = recipientPath !== undefined ? { recipient: await readFile(recipientPath, 'utf8') } : passphrase !== undefined ? { passphrase } : undefined;
+    if (!wrap) throw new Error('Provide --recipient <public-key.pem>, --passphrase-stdin or --passphrase-env <NAME>');
+
+    const resolved = await resolvePepper({ ...getPepperOptions(flags), createIfMissing: false });
+    const exported = await exportPepper(resolved.pepperBytes, wrap);
+    const text = `${JSON.stringify(exported, null, 2)}\n`;
+
+    if (!outPath) {
+      process.stdout.write(text);
+      return 0;
+    }
+    await writeTextFileAtomic(outPath, text, 0o600);
+    const to = recipientPath !== undefined ? `recipient ${recipientPath}` : 'passphrase';
+    if (json) jsonOut({ out: outPath, pepperId: exported.pepperId, wrap: exported.wrap.type });
+    else process.stdout.write(`Exported pepper ${exported.pepperId} to ${outPath} (${to})\n`);
+    return 0;
+  }
+
+  if (cmd === 'pepper' && args[0] === 'import') {
+    requireFilePepper(flags, 'replace');
+    const inPath = typeof flags['in'] === 'string' ? flags['in'] : undefined;
+    const identityPath = typeof flags['identity'] === 'string' ? flags['identity'] : undefined;
+    if (inPath === undefined && flags['passphrase-stdin'] === true) throw new Error('--passphrase-stdin needs the export in --in <path>');
+
+    const exported = parsePepperExport(JSON.parse(inPath !== undefined ? await readFile(inPath, 'utf8') : await readStdinText()) as unknown);
+    const passphrase = identityPath === undefined ? await passphraseFromFlags(flags) : undefined;
+    const unwrap = identityPath !== undefined ? { identity: await readFile(identityPath, 'utf8') } : passphrase !== undefined ? { passphrase } : undefined;
+    if (!unwrap) throw new Error('Provide --identity <private-key.pem>, --passphrase-stdin or --passphrase-env <NAME>');
+
+    const pepperBytes = await unwrapPepperExport(exported, unwrap);
+    const result = await importPepper(pepperBytes, { ...getPepperOptions(flags), ...(flags['force'] === true ? { force: true } : {}) });
+
+    if (json) jsonOut(result);
+    else if (result.unchanged) process.stdout.write(`Pepper ${result.pepperId} is already in ${result.pepperFilePath}\n`);
+    else {
+      const replaced = result.replacedPepperId ? ` (replaced ${result.replacedPepperId})` : '';
+      process.stdout.write(`Imported pepper ${result.pepperId} to ${result.pepperFilePath}${replaced}\n`);
+    }
+    return 0;
+  }
+
   const pepper = getPepperOptions(flags);
-  const envsitter = EnvSitter.fromDotenvFile(file);
+  const envsitter = envSitterFromFlags(flags);
 
   if (cmd === 'keys') {
     const filterRegexRaw = typeof flags['filter-regex'] === 'string' ? flags['filter-regex'] : undefined;
     const filter = filterRegexRaw ? parseRegex(filterRegexRaw) : undefined;
 
-    const keys = await envsitter.listKeys(filter ? { filter } : {});
-    if (json) jsonOut({ keys });
-    else process.stdout.write(`${keys.join('\n')}\n`);
+    const infos = await envsitter.listKeys({ withProvenance: true, ...(filter ? { filter } : {}) });
+    const keys = infos.map((i) => i.key);
+    const layered = infos.some((i) => i.provenance);
+
+    if (json) jsonOut(layered ? { keys, provenance: Object.fromEntries(infos.map((i) => [i.key, i.provenance])) } : { keys });
+    else if (layered) {
+      for (const info of infos) {
+        const winner = info.provenance ? ` ${info.provenance.file}:${info.provenance.line}` : '';
+        const shadowed = info.provenance?.shadows.length ? ` (shadows ${info.provenance.shadows.map((s) => `${s.file}:${s.line}`).join(', ')})` : '';
+        process.stdout.write(`${info.key}${winner}${shadowed}\n`);
+      }
+    } else process.stdout.write(`${keys.join('\n')}\n`);
     return 0;
   }
 
   if (cmd === 'fingerprint') {
     const key = requireValue(typeof flags['key'] === 'string' ? flags['key'] : undefined, '--key is required');
-    const fp = await envsitter.fingerprintKey(key, pepperMatchOptions(pepper?.pepperFilePath));
+    const fp = await envsitter.fingerprintKey(key, { ...pepperMatchOptions(pepper), ...algorithmOptionsFromFlags(flags) });
     jsonOut(fp);
     return 0;
   }
@@ -413,8 +1058,8 @@ async function run(): Promise<number> {
     const candidateStdin = flags['candidate-stdin'] === true ? (await readStdinText()).trimEnd() : undefined;
     const candidate = candidateStdin ?? candidateArg;
 
-    const matcher = parseMatcher(op, candidate);
-    const pepperOptions = pepperMatchOptions(pepper?.pepperFilePath);
+    const matcher = parseMatcher(op, candidate, typeof flags['fingerprint'] === 'string' ? flags['fingerprint'] : undefined);
+    const pepperOptions = pepperMatchOptions(pepper);
 
     const key = typeof flags['key'] === 'string' ? flags['key'] : undefined;
     const keysCsv = typeof flags['keys'] === 'string' ? flags['keys'] : undefined;
@@ -423,8 +1068,9 @@ async function run(): Promise<number> {
     const includeOp = typeof flags['op'] === 'string';
 
     if (key) {
-      const match = await envsitter.matchKey(key, matcher, pepperOptions);
-      if (json) jsonOut(includeOp ? { key, op: matcher.op, match } : { key, match });
+      const { match, provenance } = await envsitter.matchKey(key, matcher, { ...pepperOptions, withProvenance: true });
+      const extra = provenance ? { provenance } : {};
+      if (json) jsonOut(includeOp ? { key, op: matcher.op, match, ...extra } : { key, match, ...extra });
       return match ? 0 : 1;
     }
 
@@ -458,7 +1104,7 @@ async function run(): Promise<number> {
       throw new Error('Candidates JSON must be an object: {"KEY":"candidate"}');
     }
 
-    const matches = await envsitter.matchCandidatesByKey(candidates, pepperMatchOptions(pepper?.pepperFilePath));
+    const matches = await envsitter.matchCandidatesByKey(candidates, pepperMatchOptions(pepper));
     jsonOut({ matches });
     return matches.some((m) => m.match) ? 0 : 1;
   }
@@ -468,16 +1114,220 @@ async function run(): Promise<number> {
     const detectRaw = typeof flags['detect'] === 'string' ? flags['detect'] : undefined;
 
     const keysFilter = keysRegexRaw ? parseRegex(keysRegexRaw) : undefined;
-    const detect = detectRaw ? (parseList(detectRaw) as Array<'jwt' | 'url' | 'base64'>) : undefined;
+    const detect = detectRaw ? parseList(detectRaw) : undefined;
+    const expiringWithinDays = parsePositiveInt(flags['expiring-within'], '--expiring-within');
+    const hashClaims = flags['hash-claims'] === true;
+    const withJwt = flags['jwt'] === true || hashClaims;
+    const connections = flags['connections'] === true;
+    const pem = flags['pem'] === true;
 
     const findings = await envsitter.scan({
       ...(keysFilter ? { keysFilter } : {}),
-      ...(detect ? { detect } : {})
+      ...(detect ? { detect } : {}),
+      ...(connections ? { connections } : {}),
+      ...(pem ? { pem: expiringWithinDays !== undefined ? { expiringWithinDays } : true } : {}),
+      ...(withJwt
+        ? {
+            jwt: { ...(expiringWithinDays !== undefined ? { expiringWithinDays } : {}), ...(hashClaims ? { hashClaims } : {}) },
+            ...pepperMatchOptions(pepper)
+          }
+        : {})
     });
     jsonOut({ findings });
     return 0;
   }
 
+  if (cmd === 'audit') {
+    const keysRegexRaw = typeof flags['keys-regex'] === 'string' ? flags['keys-regex'] : undefined;
+    const minLength = parsePositiveInt(flags['min-length'], '--min-length');
+    const minEntropyBits = parsePositiveInt(flags['min-entropy'], '--min-entropy');
+
+    const result = await envsitter.audit({
+      ...(keysRegexRaw ? { keysFilter: parseRegex(keysRegexRaw) } : {}),
+      ...(minLength !== undefined ? { minLength } : {}),
+      ...(minEntropyBits !== undefined ? { minEntropyBits } : {})
+    });
+
+    if (json) jsonOut(result);
+    else {
+      for (const k of result.keys) {
+        if (!k.weak) continue;
+        process.stdout.write(`WEAK ${k.key}: ${k.weaknesses.join(', ')} (length ${k.lengthBucket}, ~${k.entropyBits} bits)\n`);
+      }
+      if (result.ok) process.stdout.write('OK\n');
+    }
+
+    return result.ok ? 0 : 1;
+  }
+
+  if (cmd === 'leaks') {
+    const keysRegexRaw = typeof flags['keys-regex'] === 'string' ? flags['keys-regex'] : undefined;
+    const minLength = parsePositiveInt(flags['min-length'], '--min-length');
+    const root = typeof flags['root'] === 'string' ? flags['root'] : '.';
+
+    if (flags['git'] === true) {
+      const history = await envsitter.findGitLeaks({
+        root,
+        ...(keysRegexRaw ? { keysFilter: parseRegex(keysRegexRaw) } : {}),
+        ...(minLength !== undefined ? { minLength } : {})
+      });
+
+      if (json) jsonOut(history);
+      else {
+        for (const f of history.envFiles) process.stdout.write(`ENV_FILE ${f.commit} ${f.path}\n`);
+        for (const f of history.findings) {
+          process.stdout.write(`${f.commit} ${f.path} ${f.key}${f.encoding === 'raw' ? '' : ` (${f.encoding})`}\n`);
+        }
+        if (history.envFiles.length === 0 && history.findings.length === 0) {
+          process.stdout.write(`OK (${history.commitsScanned} commits, ${history.blobsScanned} blobs scanned)\n`);
+        }
+      }
+
+      return history.envFiles.length > 0 || history.findings.length > 0 ? 1 : 0;
+    }
+
+    const result = await envsitter.findLeaks({
+      root,
+      exclude: sourceFilePathsFromFlags(flags),
+      ...(keysRegexRaw ? { keysFilter: parseRegex(keysRegexRaw) } : {}),
+      ...(minLength !== undefined ? { minLength } : {})
+    });
+
+    if (json) jsonOut(result);
+    else {
+      for (const f of result.findings) {
+        process.stdout.write(`${f.file}:${f.line}:${f.column} ${f.key}${f.encoding === 'raw' ? '' : ` (${f.encoding})`}\n`);
+      }
+      if (result.findings.length === 0) process.stdout.write(`OK (${result.filesScanned} files scanned)\n`);
+    }
+
+    return result.findings.length > 0 ? 1 : 0;
+  }
+
+  if (cmd === 'precommit') {
+    const keysRegexRaw = typeof flags['keys-regex'] === 'string' ? flags['keys-regex'] : undefined;
+    const minLength = parsePositiveInt(flags['min-length'], '--min-length');
+    const allowlistPath = typeof flags['allowlist'] === 'string' ? flags['allowlist'] : undefined;
+
+    const result = await envsitter.findStagedLeaks({
+      ...(allowlistPath ? { allowlistPath } : {}),
+      ...(keysRegexRaw ? { keysFilter: parseRegex(keysRegexRaw) } : {}),
+      ...(minLength !== undefined ? { minLength } : {})
+    });
+    const failed = result.blocked.length > 0 || result.findings.length > 0;
+
+    if (json) jsonOut(result);
+    else {
+      for (const b of result.blocked) {
+        process.stdout.write(`BLOCKED ${b.path} (${b.reason === 'pepper_file' ? 'pepper file' : 'env file'})\n`);
+      }
+      for (const f of result.findings) {
+        process.stdout.write(`${f.path}:${f.line}:${f.column} ${f.key}${f.encoding === 'raw' ? '' : ` (${f.encoding})`}\n`);
+      }
+      if (failed) {
+        process.stderr.write(`Commit blocked: unstage the files above, or allow them in ${DEFAULT_PRECOMMIT_ALLOWLIST_FILE}.\n`);
+      } else process.stdout.write(`OK (${result.filesScanned} staged files scanned)\n`);
+    }
+
+    return failed ? 1 : 0;
+  }
+
+  if (cmd === 'redact') {
+    const keysRegexRaw = typeof flags['keys-regex'] === 'string' ? flags['keys-regex'] : undefined;
+    const minLength = parsePositiveInt(flags['min-length'], '--min-length');
+
+    const redactor = await envsitter.createRedactStream({
+      ...(keysRegexRaw ? { keysFilter: parseRegex(keysRegexRaw) } : {}),
+      ...(minLength !== undefined ? { minLength } : {})
+    });
+    await pipeline(process.stdin, redactor, process.stdout);
+    return 0;
+  }
+
+  if (cmd === 'inspect') {
+    const keysRegexRaw = typeof flags['keys-regex'] === 'string' ? flags['keys-regex'] : undefined;
+    const expiringWithinDays = parsePositiveInt(flags['expiring-within'], '--expiring-within');
+    const hashClaims = flags['hash-claims'] === true;
+
+    const keys = await envsitter.inspect({
+      ...(keysRegexRaw ? { keysFilter: parseRegex(keysRegexRaw) } : {}),
+      ...(expiringWithinDays !== undefined ? { expiringWithinDays } : {}),
+      ...(hashClaims ? { hashClaims } : {}),
+      ...pepperMatchOptions(pepper)
+    });
+
+    if (json) jsonOut({ keys });
+    else {
+      for (const item of keys) {
+        for (const line of describeInspection(item)) process.stdout.write(`${line}\n`);
+      }
+    }
+
+    const flagged = keys.some(
+      (k) => (k.certificate?.findings.length ?? 0) > 0 || (k.privateKey?.findings.length ?? 0) > 0 || (k.jwt?.findings.length ?? 0) > 0
+    );
+    return flagged ? 1 : 0;
+  }
+
+  if (cmd === 'snapshot') {
+    const lockPath = typeof flags['lock'] === 'string' ? flags['lock'] : DEFAULT_LOCK_FILE;
+    const keysRegexRaw = typeof flags['keys-regex'] === 'string' ? flags['keys-regex'] : undefined;
+
+    const lock = await envsitter.snapshot({
+      ...(keysRegexRaw ? { keysFilter: parseRegex(keysRegexRaw) } : {}),
+      ...pepperMatchOptions(pepper),
+      ...algorithmOptionsFromFlags(flags)
+    });
+    await writeTextFileAtomic(lockPath, stringifyEnvLock(lock));
+
+    const count = Object.keys(lock.keys).length;
+    if (json) jsonOut({ lock: lockPath, keys: count });
+    else process.stdout.write(`Wrote ${lockPath} (${count} keys)\n`);
+    return 0;
+  }
+
+  if (cmd === 'verify') {
+    const lockPath = typeof flags['lock'] === 'string' ? flags['lock'] : DEFAULT_LOCK_FILE;
+    const keysRegexRaw = typeof flags['keys-regex'] === 'string' ? flags['keys-regex'] : undefined;
+
+    const lock = await readEnvLockFile(lockPath);
+    const result = await envsitter.verify(lock, {
+      ...(keysRegexRaw ? { keysFilter: parseRegex(keysRegexRaw) } : {}),
+      ...pepperMatchOptions(pepper)
+    });
+
+    if (json) jsonOut({ lock: lockPath, ...result });
+    else {
+      for (const k of result.keys) {
+        if (k.status === 'unchanged') continue;
+        const moved =
+          k.status === 'changed' && k.locked && k.current && (k.locked.lengthBucket !== k.current.lengthBucket || k.locked.shape !== k.current.shape)
+            ? ` (${k.locked.shape} ${k.locked.lengthBucket} -> ${k.current.shape} ${k.current.lengthBucket})`
+            : '';
+        const unverifiable = k.status === 'unverifiable' ? ` (pepper ${lock.keys[k.key]?.pepperId ?? ''} not available)` : '';
+        process.stdout.write(`${k.status.toUpperCase()} ${k.key}${moved}${unverifiable}\n`);
+      }
+      if (result.ok) process.stdout.write(`OK (${result.unchanged} keys match ${lockPath})\n`);
+    }
+
+    return result.ok ? 0 : 1;
+  }
+
+  if (cmd === 'check') {
+    const schemaPath = typeof flags['schema'] === 'string' ? flags['schema'] : DEFAULT_SCHEMA_FILE;
+    const schema = await readEnvSchemaFile(schemaPath);
+    const result = await envsitter.checkSchema(schema);
+
+    if (json) jsonOut({ schema: schemaPath, ...result });
+    else {
+      for (const r of result.results) {
+        process.stdout.write(r.ok ? `PASS ${r.key}${r.reason === 'ok' ? '' : ` (${r.reason})`}\n` : `FAIL ${r.key} ${r.reason}\n`);
+      }
+    }
+
+    return result.ok ? 0 : 1;
+  }
+
   printHelp();
   return 2;
 }
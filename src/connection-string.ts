@@ -0,0 +1,207 @@
+export type ConnectionStringKind = 'postgres' | 'mysql' | 'mongodb' | 'redis' | 'amqp' | 'sqlite';
+
+/** `required`: the URL enforces TLS; `optional`: TLS is attempted but not enforced (e.g. `sslmode=prefer`). */
+export type ConnectionTls = 'required' | 'optional' | 'disabled' | 'unspecified' | 'not_applicable';
+
+/** For several hosts, the most public one wins (`public` > `private` > `localhost`). */
+export type ConnectionHostClass = 'localhost' | 'private' | 'public' | 'unix_socket' | 'file' | 'memory';
+
+export type ConnectionStringAnalysis = {
+  scheme: string;
+  kind: ConnectionStringKind;
+  /** A user name or password is embedded in the URL. */
+  hasCredentials: boolean;
+  hasPassword: boolean;
+  tls: ConnectionTls;
+  hostClass: ConnectionHostClass;
+  hostCount: number;
+  port?: number;
+  hasDatabase: boolean;
+};
+
+/** Hosts and database name extracted for HMAC matching; never part of any result. */
+export type ConnectionStringParts = {
+  analysis: ConnectionStringAnalysis;
+  hosts: string[];
+  database?: string;
+};
+
+const SCHEMES: Readonly<Record<string, ConnectionStringKind>> = {
+  postgres: 'postgres',
+  postgresql: 'postgres',
+  mysql: 'mysql',
+  mariadb: 'mysql',
+  mongodb: 'mongodb',
+  'mongodb+srv': 'mongodb',
+  redis: 'redis',
+  rediss: 'redis',
+  amqp: 'amqp',
+  amqps: 'amqp',
+  sqlite: 'sqlite',
+  sqlite3: 'sqlite'
+};
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function isIpv4InRange(host: string, test: (octets: number[]) => boolean): boolean {
+  const m = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(host);
+  if (!m) return false;
+  const octets = m.slice(1).map(Number);
+  return octets.every((o) => o <= 255) && test(octets);
+}
+
+function classifyHost(host: string): ConnectionHostClass {
+  const h = host.toLowerCase();
+  if (h.startsWith('/')) return 'unix_socket';
+  if (h === 'localhost' || h.endsWith('.localhost') || h === '::1' || isIpv4InRange(h, ([a]) => a === 127)) return 'localhost';
+
+  const privateV4 = isIpv4InRange(
+    h,
+    ([a = 0, b = 0]) => a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 169 && b === 254)
+  );
+  const privateV6 = /^(?:f[cd][0-9a-f]{2}|fe[89ab][0-9a-f]):/.test(h);
+  const privateName = !h.includes('.') && !h.includes(':') ? true : /\.(?:local|internal|lan|svc|cluster\.local)$/.test(h);
+  if (privateV4 || privateV6 || privateName) return 'private';
+
+  return 'public';
+}
+
+const HOST_CLASS_RANK: readonly ConnectionHostClass[] = ['memory', 'file', 'unix_socket', 'localhost', 'private', 'public'];
+
+function splitHostPort(raw: string): { host: string; port?: number } {
+  const v6 = /^\[([^\]]*)\](?::(\d+))?$/.exec(raw);
+  if (v6) return { host: v6[1] ?? '', ...(v6[2] ? { port: Number(v6[2]) } : {}) };
+  const m = /^(.*?)(?::(\d+))?$/.exec(raw);
+  return { host: safeDecode(m?.[1] ?? raw), ...(m?.[2] ? { port: Number(m[2]) } : {}) };
+}
+
+function tlsFor(kind: ConnectionStringKind, scheme: string, params: URLSearchParams): ConnectionTls {
+  if (kind === 'sqlite') return 'not_applicable';
+  if (scheme === 'rediss' || scheme === 'amqps') return 'required';
+  if (scheme === 'redis' || scheme === 'amqp') return 'disabled';
+
+  const get = (name: string) => params.get(name)?.toLowerCase();
+
+  if (kind === 'postgres') {
+    const mode = get('sslmode');
+    if (mode === 'require' || mode === 'verify-ca' || mode === 'verify-full') return 'required';
+    if (mode === 'prefer' || mode === 'allow') return 'optional';
+    if (mode === 'disable') return 'disabled';
+    if (get('ssl') === 'true' || get('ssl') === '1') return 'required';
+    return 'unspecified';
+  }
+
+  if (kind === 'mysql') {
+    const mode = get('ssl-mode') ?? get('sslmode');
+    if (mode === 'required' || mode === 'verify_ca' || mode === 'verify_identity') return 'required';
+    if (mode === 'preferred') return 'optional';
+    if (mode === 'disabled') return 'disabled';
+    const ssl = get('ssl') ?? get('tls');
+    if (ssl === 'true' || ssl === '1') return 'required';
+    if (ssl === 'false' || ssl === '0') return 'disabled';
+    return 'unspecified';
+  }
+
+  const ssl = get('tls') ?? get('ssl');
+  if (ssl === 'true') return 'required';
+  if (ssl === 'false') return 'disabled';
+  return scheme === 'mongodb+srv' ? 'required' : 'unspecified';
+}
+
+function parseSqlite(scheme: string, rest: string): ConnectionStringParts {
+  const path = rest.replace(/^\/\//, '').split('?')[0] ?? '';
+  const memory = path === ':memory:' || path === '/:memory:' || path.length === 0;
+  return {
+    analysis: {
+      scheme,
+      kind: 'sqlite',
+      hasCredentials: false,
+      hasPassword: false,
+      tls: 'not_applicable',
+      hostClass: memory ? 'memory' : 'file',
+      hostCount: 0,
+      hasDatabase: !memory
+    },
+    hosts: [],
+    ...(memory ? {} : { database: safeDecode(path) })
+  };
+}
+
+/**
+ * Parses a database/broker URL in-process. Multi-host URLs (`mongodb://a,b,c/db`) are supported; the result
+ * only classifies hosts and never includes user, password, host or database names.
+ */
+export function parseConnectionString(value: string): ConnectionStringParts | undefined {
+  const trimmed = value.trim();
+  const schemeMatch = /^([a-z][a-z0-9+.-]*):(.*)$/is.exec(trimmed);
+  if (!schemeMatch) return undefined;
+
+  const scheme = (schemeMatch[1] ?? '').toLowerCase();
+  const rest = schemeMatch[2] ?? '';
+  const kind = SCHEMES[scheme];
+  if (!kind) return undefined;
+  if (kind === 'sqlite') return parseSqlite(scheme, rest);
+  if (!rest.startsWith('//')) return undefined;
+
+  const afterSlashes = rest.slice(2);
+  const queryIndex = afterSlashes.indexOf('?');
+  const beforeQuery = queryIndex === -1 ? afterSlashes : afterSlashes.slice(0, queryIndex);
+  const params = new URLSearchParams(queryIndex === -1 ? '' : afterSlashes.slice(queryIndex + 1).split('#')[0]);
+
+  const pathIndex = beforeQuery.indexOf('/');
+  const authority = pathIndex === -1 ? beforeQuery : beforeQuery.slice(0, pathIndex);
+  const path = pathIndex === -1 ? '' : beforeQuery.slice(pathIndex + 1);
+
+  const at = authority.lastIndexOf('@');
+  const userinfo = at === -1 ? '' : authority.slice(0, at);
+  const hostList = at === -1 ? authority : authority.slice(at + 1);
+
+  const colon = userinfo.indexOf(':');
+  const user = colon === -1 ? userinfo : userinfo.slice(0, colon);
+  const password = colon === -1 ? '' : userinfo.slice(colon + 1);
+  const hasPassword = password.length > 0 || (kind === 'postgres' && params.has('password'));
+  const hasCredentials = user.length > 0 || hasPassword || (kind === 'postgres' && params.has('user'));
+
+  const parsedHosts = hostList
+    .split(',')
+    .filter((h) => h.length > 0)
+    .map(splitHostPort);
+  const socketHost = params.get('host') ?? params.get('socket');
+  const hosts = parsedHosts.length > 0 ? parsedHosts.map((h) => h.host) : socketHost ? [socketHost] : [];
+
+  const classes = hosts.length > 0 ? hosts.map(classifyHost) : (['unix_socket'] as ConnectionHostClass[]);
+  const hostClass = classes.reduce((a, b) => (HOST_CLASS_RANK.indexOf(b) > HOST_CLASS_RANK.indexOf(a) ? b : a));
+
+  const database = safeDecode(path.split('/')[0] ?? '');
+  const port = parsedHosts[0]?.port;
+
+  return {
+    analysis: {
+      scheme,
+      kind,
+      hasCredentials,
+      hasPassword,
+      tls: tlsFor(kind, scheme, params),
+      hostClass,
+      hostCount: hosts.length,
+      ...(port !== undefined ? { port } : {}),
+      hasDatabase: database.length > 0
+    },
+    hosts,
+    ...(database.length > 0 ? { database } : {})
+  };
+}
+
+export function analyzeConnectionString(value: string): ConnectionStringAnalysis | undefined {
+  return parseConnectionString(value)?.analysis;
+}
+
+export function looksLikeConnectionString(value: string): boolean {
+  return parseConnectionString(value) !== undefined;
+}
@@ -0,0 +1,147 @@
+import type { DotenvQuoteChar } from './utils.js';
+
+/**
+ * Dotenv dialects understood by the parser:
+ * - `envsitter`: the historical envsitter rules (default).
+ * - `dotenv`: the `dotenv` npm package.
+ * - `python-dotenv`: the `python-dotenv` package.
+ * - `docker-compose`: Docker Compose `.env` / `env_file`.
+ * - `bash`: files that are `source`d by a POSIX shell; also the safe subset for systemd `EnvironmentFile=`.
+ */
+export type DotenvDialect = 'envsitter' | 'dotenv' | 'python-dotenv' | 'docker-compose' | 'bash';
+
+export const DOTENV_DIALECTS: readonly DotenvDialect[] = ['envsitter', 'dotenv', 'python-dotenv', 'docker-compose', 'bash'];
+
+export type DotenvDialectSpec = {
+  dialect: DotenvDialect;
+  keyStart: RegExp;
+  keyChar: RegExp;
+  allowWhitespaceAroundEquals: boolean;
+  /** Quote characters that open a quoted value. */
+  quotes: readonly DotenvQuoteChar[];
+  /** Quote characters inside which a backslash escapes the closing quote. */
+  backslashQuotes: readonly DotenvQuoteChar[];
+  /** `whitespace`: `#` starts a comment only after whitespace; `anywhere`: any `#` in an unquoted value. */
+  inlineComment: 'whitespace' | 'anywhere';
+  /** Unquoted values may not contain unescaped whitespace (a shell would run the rest as a command). */
+  unquotedWhitespaceIsError: boolean;
+  /** With `keepDollarEscapes`, `\$` is left as written so variable expansion can tell an escaped `$` from a reference. */
+  unescapeDouble(value: string, keepDollarEscapes?: boolean): string;
+  unescapeSingle(value: string): string;
+  unescapeUnquoted(value: string, keepDollarEscapes?: boolean): string;
+};
+
+function identity(value: string): string {
+  return value;
+}
+
+function unescapeWith(value: string, map: Readonly<Record<string, string>>, dropUnknownBackslash: boolean, keepDollarEscapes = false): string {
+  let out = '';
+  for (let i = 0; i < value.length; i++) {
+    const c = value[i];
+    if (c !== '\\') {
+      out += c;
+      continue;
+    }
+    const next = value[i + 1];
+    if (next === undefined) {
+      out += '\\';
+      continue;
+    }
+    const mapped = map[next];
+    if (next === '$' && keepDollarEscapes) {
+      out += '\\$';
+      i++;
+    } else if (mapped !== undefined) {
+      out += mapped;
+      i++;
+    } else if (dropUnknownBackslash) {
+      out += next;
+      i++;
+    } else {
+      out += c;
+    }
+  }
+  return out;
+}
+
+const COMMON_ESCAPES: Readonly<Record<string, string>> = { n: '\n', r: '\r', t: '\t' };
+
+const SPECS: Readonly<Record<DotenvDialect, DotenvDialectSpec>> = {
+  envsitter: {
+    dialect: 'envsitter',
+    keyStart: /[A-Za-z0-9_]/,
+    keyChar: /[A-Za-z0-9_]/,
+    allowWhitespaceAroundEquals: true,
+    quotes: ["'", '"', '`'],
+    backslashQuotes: ['"'],
+    inlineComment: 'whitespace',
+    unquotedWhitespaceIsError: false,
+    unescapeDouble: (value, keepDollarEscapes) => unescapeWith(value, COMMON_ESCAPES, true, keepDollarEscapes),
+    unescapeSingle: identity,
+    unescapeUnquoted: identity
+  },
+  dotenv: {
+    dialect: 'dotenv',
+    keyStart: /[\w.-]/,
+    keyChar: /[\w.-]/,
+    allowWhitespaceAroundEquals: true,
+    quotes: ["'", '"', '`'],
+    backslashQuotes: ["'", '"', '`'],
+    inlineComment: 'anywhere',
+    unquotedWhitespaceIsError: false,
+    unescapeDouble: (value) => value.replace(/\\n/g, '\n').replace(/\\r/g, '\r'),
+    unescapeSingle: identity,
+    unescapeUnquoted: identity
+  },
+  'python-dotenv': {
+    dialect: 'python-dotenv',
+    keyStart: /[\w.-]/,
+    keyChar: /[\w.-]/,
+    allowWhitespaceAroundEquals: true,
+    quotes: ["'", '"'],
+    backslashQuotes: ["'", '"'],
+    inlineComment: 'whitespace',
+    unquotedWhitespaceIsError: false,
+    unescapeDouble: (value) =>
+      unescapeWith(value, { ...COMMON_ESCAPES, '\\': '\\', "'": "'", '"': '"', a: '\x07', b: '\b', f: '\f', v: '\v' }, false),
+    unescapeSingle: (value) => unescapeWith(value, { '\\': '\\', "'": "'" }, false),
+    unescapeUnquoted: identity
+  },
+  'docker-compose': {
+    dialect: 'docker-compose',
+    keyStart: /[A-Za-z0-9_.-]/,
+    keyChar: /[A-Za-z0-9_.-]/,
+    allowWhitespaceAroundEquals: true,
+    quotes: ["'", '"'],
+    backslashQuotes: ['"'],
+    inlineComment: 'whitespace',
+    unquotedWhitespaceIsError: false,
+    unescapeDouble: (value, keepDollarEscapes) => unescapeWith(value, COMMON_ESCAPES, true, keepDollarEscapes),
+    unescapeSingle: identity,
+    unescapeUnquoted: identity
+  },
+  bash: {
+    dialect: 'bash',
+    keyStart: /[A-Za-z_]/,
+    keyChar: /[A-Za-z0-9_]/,
+    allowWhitespaceAroundEquals: false,
+    quotes: ["'", '"'],
+    backslashQuotes: ['"'],
+    inlineComment: 'whitespace',
+    unquotedWhitespaceIsError: true,
+    unescapeDouble: (value, keepDollarEscapes) => unescapeWith(value, { $: '$', '`': '`', '"': '"', '\\': '\\', '\n': '' }, false, keepDollarEscapes),
+    unescapeSingle: identity,
+    unescapeUnquoted: (value, keepDollarEscapes) => unescapeWith(value, { '\n': '' }, true, keepDollarEscapes)
+  }
+};
+
+export function dialectSpec(dialect: DotenvDialect = 'envsitter'): DotenvDialectSpec {
+  return SPECS[dialect];
+}
+
+export function parseDialect(raw: string): DotenvDialect {
+  const found = DOTENV_DIALECTS.find((d) => d === raw);
+  if (!found) throw new Error(`Unknown dialect: ${raw}. Expected one of: ${DOTENV_DIALECTS.join(',')}`);
+  return found;
+}
@@ -1,11 +1,17 @@
+import { dialectSpec, type DotenvDialect, type DotenvDialectSpec } from './dialect.js';
+import { assignmentEndIndex, findClosingQuote, isQuoteChar, type DotenvQuoteChar } from './utils.js';
+
 export type DotenvIssue = {
   line: number;
   column: number;
   message: string;
 };
 
+export type DotenvQuote = 'none' | 'single' | 'double' | 'backtick';
+
 export type DotenvParsedAssignment = {
   line: number;
+  endLine: number;
   raw: string;
   leadingWhitespace: string;
   exported: boolean;
@@ -13,7 +19,7 @@ export type DotenvParsedAssignment = {
   keyColumn: number;
   beforeEqWhitespace: string;
   afterEqRaw: string;
-  quote: 'none' | 'single' | 'double';
+  quote: DotenvQuote;
   value: string;
 };
 
@@ -29,18 +35,19 @@ export type DotenvDocument = {
   endsWithNewline: boolean;
 };
 
+export type DotenvDocumentOptions = {
+  dialect?: DotenvDialect;
+};
+
 function isWhitespace(char: string): boolean {
   return /\s/.test(char);
 }
 
-function isValidKeyChar(char: string): boolean {
-  return /[A-Za-z0-9_]/.test(char);
-}
-
-function stripInlineComment(unquotedValue: string): string {
+function stripInlineComment(unquotedValue: string, spec: DotenvDialectSpec): string {
   for (let i = 0; i < unquotedValue.length; i++) {
     const c = unquotedValue[i];
     if (c === '#') {
+      if (spec.inlineComment === 'anywhere') return unquotedValue.slice(0, i);
       const prev = i > 0 ? (unquotedValue[i - 1] ?? '') : '';
       if (prev === '' || /\s/.test(prev)) return unquotedValue.slice(0, i);
     }
@@ -48,59 +55,45 @@ function stripInlineComment(unquotedValue: string): string {
   return unquotedValue;
 }
 
-function unescapeDoubleQuoted(value: string): string {
-  let out = '';
-  for (let i = 0; i < value.length; i++) {
-    const c = value[i];
-    if (c !== '\\') {
-      out += c;
-      continue;
-    }
-    const next = value[i + 1];
-    if (next === undefined) {
-      out += '\\';
-      continue;
-    }
-    i++;
-    if (next === 'n') out += '\n';
-    else if (next === 'r') out += '\r';
-    else if (next === 't') out += '\t';
-    else out += next;
-  }
-  return out;
-}
+const QUOTE_KINDS: Readonly<Record<DotenvQuoteChar, Exclude<DotenvQuote, 'none'>>> = { "'": 'single', '"': 'double', '`': 'backtick' };
+
+type ParsedValue = {
+  value: string;
+  quote: DotenvQuote;
+  /** The value for variable expansion: every `$` that must stay literal is written `\$`. */
+  template: string;
+};
 
-function parseValueDetailed(afterEqRaw: string, line: number, issues: DotenvIssue[]): { value: string; quote: 'none' | 'single' | 'double' } {
+function parseValueDetailed(afterEqRaw: string, line: number, spec: DotenvDialectSpec, issues: DotenvIssue[]): ParsedValue {
   const trimmed = afterEqRaw.trimStart();
-  if (!trimmed) return { value: '', quote: 'none' };
+  if (!trimmed) return { value: '', quote: 'none', template: '' };
 
   const first = trimmed[0];
-  if (first === "'") {
-    const end = trimmed.indexOf("'", 1);
-    if (end === -1) {
-      issues.push({ line, column: 1, message: 'Unterminated single-quoted value' });
-      return { value: trimmed.slice(1), quote: 'single' };
-    }
-    return { value: trimmed.slice(1, end), quote: 'single' };
+  if (isQuoteChar(first) && spec.quotes.includes(first)) {
+    const quote = QUOTE_KINDS[first];
+    const end = findClosingQuote(trimmed, 0, spec.backslashQuotes);
+    if (end === -1) issues.push({ line, column: 1, message: `Unterminated ${quote}-quoted value` });
+    const inner = end === -1 ? trimmed.slice(1) : trimmed.slice(1, end);
+
+    if (quote === 'double') return { value: spec.unescapeDouble(inner), quote, template: spec.unescapeDouble(inner, true) };
+    const value = spec.unescapeSingle(inner);
+    // Single-quoted values are never expanded (as in dotenv-expand and the shell).
+    return { value, quote, template: quote === 'single' ? value.replace(/\$/g, '\\$') : value };
   }
 
-  if (first === '"') {
-    let end = 1;
-    for (; end < trimmed.length; end++) {
-      const c = trimmed[end];
-      if (c === '"' && trimmed[end - 1] !== '\\') break;
-    }
-    if (end >= trimmed.length || trimmed[end] !== '"') {
-      issues.push({ line, column: 1, message: 'Unterminated double-quoted value' });
-      return { value: unescapeDoubleQuoted(trimmed.slice(1)), quote: 'double' };
-    }
-    return { value: unescapeDoubleQuoted(trimmed.slice(1, end)), quote: 'double' };
+  const unquoted = stripInlineComment(trimmed, spec).trimEnd();
+  if (spec.unquotedWhitespaceIsError && /(?:^|[^\\])\s/.test(unquoted)) {
+    issues.push({ line, column: 1, message: `Unquoted value contains whitespace (${spec.dialect} dialect)` });
   }
+  return { value: spec.unescapeUnquoted(unquoted), quote: 'none', template: spec.unescapeUnquoted(unquoted, true) };
+}
 
-  return { value: stripInlineComment(trimmed).trimEnd(), quote: 'none' };
+/** `parseDotenv` keeps these next to the values so that expansion never sees a `$` the file escaped or single-quoted. */
+export function expansionTemplate(afterEqRaw: string, dialect?: DotenvDialect): string {
+  return parseValueDetailed(afterEqRaw, 0, dialectSpec(dialect), []).template;
 }
 
-function parseAssignmentLine(raw: string, line: number, issues: DotenvIssue[]): DotenvParsedAssignment | undefined {
+function parseAssignmentLine(raw: string, line: number, endLine: number, spec: DotenvDialectSpec, issues: DotenvIssue[]): DotenvParsedAssignment | undefined {
   let cursor = 0;
   while (cursor < raw.length && isWhitespace(raw[cursor] ?? '')) cursor++;
   const leadingWhitespace = raw.slice(0, cursor);
@@ -119,7 +112,10 @@ function parseAssignmentLine(raw: string, line: number, issues: DotenvIssue[]):
   }
 
   const keyStart = cursor;
-  while (cursor < raw.length && isValidKeyChar(raw[cursor] ?? '')) cursor++;
+  if (spec.keyStart.test(raw[cursor] ?? '')) {
+    cursor++;
+    while (cursor < raw.length && spec.keyChar.test(raw[cursor] ?? '')) cursor++;
+  }
   const key = raw.slice(keyStart, cursor);
   if (!key) {
     issues.push({ line, column: keyStart + 1, message: 'Invalid key name' });
@@ -142,10 +138,15 @@ function parseAssignmentLine(raw: string, line: number, issues: DotenvIssue[]):
   }
 
   const afterEqRaw = raw.slice(cursor + 1);
-  const { value, quote } = parseValueDetailed(afterEqRaw, line, issues);
+  if (!spec.allowWhitespaceAroundEquals && (beforeEqWhitespace || /^[ \t]/.test(afterEqRaw))) {
+    issues.push({ line, column: cursor + 1, message: `Whitespace around = is not allowed (${spec.dialect} dialect)` });
+  }
+
+  const { value, quote } = parseValueDetailed(afterEqRaw, line, spec, issues);
 
   return {
     line,
+    endLine,
     raw,
     leadingWhitespace,
     exported,
@@ -158,7 +159,9 @@ function parseAssignmentLine(raw: string, line: number, issues: DotenvIssue[]):
   };
 }
 
-export function parseDotenvDocument(contents: string): DotenvDocument {
+/** The single dotenv parser: lossless document model used by the sources, `validate` and every file operation. */
+export function parseDotenvDocument(contents: string, options: DotenvDocumentOptions = {}): DotenvDocument {
+  const spec = dialectSpec(options.dialect);
   const issues: DotenvIssue[] = [];
   const endsWithNewline = contents.endsWith('\n');
 
@@ -168,7 +171,9 @@ export function parseDotenvDocument(contents: string): DotenvDocument {
   const lines: DotenvLine[] = [];
   for (let i = 0; i < split.length; i++) {
     const lineNumber = i + 1;
-    const raw = split[i] ?? '';
+    const endIndex = assignmentEndIndex(split, i, spec);
+    const raw = split.slice(i, endIndex + 1).join('\n');
+    i = endIndex;
 
     const trimmed = raw.trim();
     if (!trimmed) {
@@ -181,7 +186,7 @@ export function parseDotenvDocument(contents: string): DotenvDocument {
       continue;
     }
 
-    const parsed = parseAssignmentLine(raw, lineNumber, issues);
+    const parsed = parseAssignmentLine(raw, lineNumber, endIndex + 1, spec, issues);
     if (parsed) lines.push({ kind: 'assignment', ...parsed });
     else lines.push({ kind: 'unknown', line: lineNumber, raw });
   }
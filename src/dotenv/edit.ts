@@ -1,4 +1,6 @@
-import { parseDotenvDocument, stringifyDotenvDocument, type DotenvParsedAssignment, type DotenvIssue } from './document.js';
+import type { DotenvDialect } from './dialect.js';
+import { expansionTemplate, parseDotenvDocument, stringifyDotenvDocument, type DotenvParsedAssignment, type DotenvIssue, type DotenvQuote } from './document.js';
+import { describeExpansionIssue, expandDotenvValues, type DotenvExpandOptions } from './expand.js';
 import { buildAssignmentLine } from './utils.js';
 
 export type DotenvWriteMode = 'dry-run' | 'write';
@@ -36,6 +38,24 @@ function listAssignments(docLines: ReturnType<typeof parseDotenvDocument>['lines
   return out;
 }
 
+function dialectOption(dialect: DotenvDialect | undefined): { dialect?: DotenvDialect } {
+  return dialect ? { dialect } : {};
+}
+
+function quoteOf(afterEqRaw: string): DotenvQuote {
+  const first = afterEqRaw[0];
+  if (first === '"') return 'double';
+  if (first === "'") return 'single';
+  if (first === '`') return 'backtick';
+  return 'none';
+}
+
+function lastLineNumber(docLines: ReturnType<typeof parseDotenvDocument>['lines']): number {
+  let last = 0;
+  for (const l of docLines) last = Math.max(last, l.kind === 'assignment' ? l.endLine : l.line);
+  return last;
+}
+
 function parseRenameMap(raw: string | undefined): Map<string, string> {
   const map = new Map<string, string>();
   if (!raw) return map;
@@ -66,9 +86,10 @@ export function copyDotenvKeys(options: {
   exclude?: RegExp;
   rename?: string;
   onConflict: CopyConflictPolicy;
+  dialect?: DotenvDialect;
 }): CopyDotenvResult {
-  const sourceDoc = parseDotenvDocument(options.sourceContents);
-  const targetDoc = parseDotenvDocument(options.targetContents);
+  const sourceDoc = parseDotenvDocument(options.sourceContents, dialectOption(options.dialect));
+  const targetDoc = parseDotenvDocument(options.targetContents, dialectOption(options.dialect));
 
   const issues: DotenvIssue[] = [...sourceDoc.issues.map((i) => ({ ...i, message: `source: ${i.message}` })), ...targetDoc.issues.map((i) => ({ ...i, message: `target: ${i.message}` }))];
 
@@ -150,8 +171,8 @@ export type AnnotateDotenvResult = {
   hasChanges: boolean;
 };
 
-export function annotateDotenvKey(options: { contents: string; key: string; comment: string; line?: number }): AnnotateDotenvResult {
-  const doc = parseDotenvDocument(options.contents);
+export function annotateDotenvKey(options: { contents: string; key: string; comment: string; line?: number; dialect?: DotenvDialect }): AnnotateDotenvResult {
+  const doc = parseDotenvDocument(options.contents, dialectOption(options.dialect));
   const issues: DotenvIssue[] = [...doc.issues];
 
   const assignments = listAssignments(doc.lines).filter((a) => a.key === options.key);
@@ -284,8 +305,8 @@ function formatSection(sectionLines: ReturnType<typeof parseDotenvDocument>['lin
   return [...header, ...blocks.flatMap((b) => b.lines), ...trailing];
 }
 
-export function formatDotenv(options: { contents: string; mode: FormatMode; sort: FormatSort }): FormatDotenvResult {
-  const doc = parseDotenvDocument(options.contents);
+export function formatDotenv(options: { contents: string; mode: FormatMode; sort: FormatSort; dialect?: DotenvDialect }): FormatDotenvResult {
+  const doc = parseDotenvDocument(options.contents, dialectOption(options.dialect));
   const issues: DotenvIssue[] = [...doc.issues];
 
   if (options.sort === 'none') return { output: options.contents, issues, hasChanges: false };
@@ -309,9 +330,29 @@ export type ValidateDotenvResult = {
   ok: boolean;
 };
 
-export function validateDotenv(contents: string): ValidateDotenvResult {
-  const doc = parseDotenvDocument(contents);
-  return { issues: doc.issues, ok: doc.issues.length === 0 };
+export type ValidateDotenvOptions = {
+  dialect?: DotenvDialect;
+  /** Also report unresolved references, unset required references and reference cycles (names only). */
+  expand?: boolean | DotenvExpandOptions;
+};
+
+export function validateDotenv(contents: string, options: ValidateDotenvOptions = {}): ValidateDotenvResult {
+  const doc = parseDotenvDocument(contents, dialectOption(options.dialect));
+  const issues: DotenvIssue[] = [...doc.issues];
+
+  if (options.expand) {
+    const lastByKey = new Map<string, DotenvParsedAssignment>();
+    for (const a of listAssignments(doc.lines)) lastByKey.set(a.key, a);
+
+    const templates = new Map([...lastByKey].map(([key, a]) => [key, expansionTemplate(a.afterEqRaw, options.dialect)]));
+    const expanded = expandDotenvValues(templates, options.expand === true ? {} : options.expand);
+    for (const issue of expanded.issues) {
+      const at = lastByKey.get(issue.key);
+      issues.push({ line: at?.line ?? 0, column: at?.keyColumn ?? 0, message: describeExpansionIssue(issue) });
+    }
+  }
+
+  return { issues, ok: issues.length === 0 };
 }
 
 export type KeyMutationAction = 'added' | 'updated' | 'unset' | 'deleted' | 'key_exists' | 'not_found' | 'no_change';
@@ -329,8 +370,8 @@ export type AddDotenvKeyResult = {
   hasChanges: boolean;
 };
 
-export function addDotenvKey(options: { contents: string; key: string; value: string }): AddDotenvKeyResult {
-  const doc = parseDotenvDocument(options.contents);
+export function addDotenvKey(options: { contents: string; key: string; value: string; dialect?: DotenvDialect }): AddDotenvKeyResult {
+  const doc = parseDotenvDocument(options.contents, dialectOption(options.dialect));
   const issues: DotenvIssue[] = [...doc.issues];
   const assignments = listAssignments(doc.lines);
 
@@ -344,12 +385,13 @@ export function addDotenvKey(options: { contents: string; key: string; value: st
     };
   }
 
-  const newLine = buildAssignmentLine(options.key, options.value);
-  const lastLine = doc.lines.length > 0 ? Math.max(...doc.lines.map((l) => l.line)) : 0;
+  const newLine = buildAssignmentLine(options.key, options.value, options.dialect);
+  const lastLine = lastLineNumber(doc.lines);
 
   doc.lines.push({
     kind: 'assignment',
     line: lastLine + 1,
+    endLine: lastLine + 1,
     raw: newLine,
     leadingWhitespace: '',
     exported: false,
@@ -357,7 +399,7 @@ export function addDotenvKey(options: { contents: string; key: string; value: st
     keyColumn: 1,
     beforeEqWhitespace: '',
     afterEqRaw: newLine.slice(options.key.length + 1),
-    quote: 'none',
+    quote: quoteOf(newLine.slice(options.key.length + 1)),
     value: options.value
   });
 
@@ -376,20 +418,21 @@ export type SetDotenvKeyResult = {
   hasChanges: boolean;
 };
 
-export function setDotenvKey(options: { contents: string; key: string; value: string }): SetDotenvKeyResult {
-  const doc = parseDotenvDocument(options.contents);
+export function setDotenvKey(options: { contents: string; key: string; value: string; dialect?: DotenvDialect }): SetDotenvKeyResult {
+  const doc = parseDotenvDocument(options.contents, dialectOption(options.dialect));
   const issues: DotenvIssue[] = [...doc.issues];
   const assignments = listAssignments(doc.lines);
 
   const existing = lastAssignmentForKey(assignments, options.key);
 
   if (!existing) {
-    const newLine = buildAssignmentLine(options.key, options.value);
-    const lastLine = doc.lines.length > 0 ? Math.max(...doc.lines.map((l) => l.line)) : 0;
+    const newLine = buildAssignmentLine(options.key, options.value, options.dialect);
+    const lastLine = lastLineNumber(doc.lines);
 
     doc.lines.push({
       kind: 'assignment',
       line: lastLine + 1,
+      endLine: lastLine + 1,
       raw: newLine,
       leadingWhitespace: '',
       exported: false,
@@ -397,7 +440,7 @@ export function setDotenvKey(options: { contents: string; key: string; value: st
       keyColumn: 1,
       beforeEqWhitespace: '',
       afterEqRaw: newLine.slice(options.key.length + 1),
-      quote: 'none',
+      quote: quoteOf(newLine.slice(options.key.length + 1)),
       value: options.value
     });
 
@@ -418,12 +461,13 @@ export function setDotenvKey(options: { contents: string; key: string; value: st
     };
   }
 
-  const newRaw = `${existing.leadingWhitespace}${existing.exported ? 'export ' : ''}${options.key}${existing.beforeEqWhitespace}=${buildAssignmentLine('', options.value).slice(1)}`;
+  const newRaw = `${existing.leadingWhitespace}${existing.exported ? 'export ' : ''}${options.key}${existing.beforeEqWhitespace}=${buildAssignmentLine('', options.value, options.dialect).slice(1)}`;
 
   for (let i = doc.lines.length - 1; i >= 0; i--) {
     const l = doc.lines[i];
     if (l?.kind === 'assignment' && l.key === options.key && l.line === existing.line) {
-      doc.lines[i] = { ...l, raw: newRaw, value: options.value, afterEqRaw: newRaw.slice(newRaw.indexOf('=') + 1) };
+      const afterEqRaw = newRaw.slice(newRaw.indexOf('=') + 1);
+      doc.lines[i] = { ...l, raw: newRaw, value: options.value, afterEqRaw, quote: quoteOf(afterEqRaw) };
       break;
     }
   }
@@ -443,8 +487,8 @@ export type UnsetDotenvKeyResult = {
   hasChanges: boolean;
 };
 
-export function unsetDotenvKey(options: { contents: string; key: string }): UnsetDotenvKeyResult {
-  const doc = parseDotenvDocument(options.contents);
+export function unsetDotenvKey(options: { contents: string; key: string; dialect?: DotenvDialect }): UnsetDotenvKeyResult {
+  const doc = parseDotenvDocument(options.contents, dialectOption(options.dialect));
   const issues: DotenvIssue[] = [...doc.issues];
   const assignments = listAssignments(doc.lines);
 
@@ -493,8 +537,8 @@ export type DeleteDotenvKeysResult = {
   hasChanges: boolean;
 };
 
-export function deleteDotenvKeys(options: { contents: string; keys: readonly string[] }): DeleteDotenvKeysResult {
-  const doc = parseDotenvDocument(options.contents);
+export function deleteDotenvKeys(options: { contents: string; keys: readonly string[]; dialect?: DotenvDialect }): DeleteDotenvKeysResult {
+  const doc = parseDotenvDocument(options.contents, dialectOption(options.dialect));
   const issues: DotenvIssue[] = [...doc.issues];
   const assignments = listAssignments(doc.lines);
 
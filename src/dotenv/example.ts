@@ -0,0 +1,144 @@
+import type { DotenvDialect } from './dialect.js';
+import { parseDotenvDocument, stringifyDotenvDocument, type DotenvIssue, type DotenvLine, type DotenvParsedAssignment } from './document.js';
+import { buildAssignmentLine } from './utils.js';
+import { isBooleanLike, isNumberLike, looksLikeUrl } from '../value-shapes.js';
+
+export type ExampleKeyLocation = {
+  key: string;
+  line: number;
+};
+
+export type DotenvExampleDiff = {
+  /** Keys in the real file that the example lacks (real file line numbers). */
+  missing: ExampleKeyLocation[];
+  /** Keys in the example that the real file lacks (example line numbers). */
+  extra: ExampleKeyLocation[];
+  issues: DotenvIssue[];
+};
+
+export type ExampleSyncPlanItem = {
+  key: string;
+  action: 'added';
+  line: number;
+};
+
+export type SyncDotenvExampleResult = {
+  output: string;
+  issues: DotenvIssue[];
+  plan: ExampleSyncPlanItem[];
+  hasChanges: boolean;
+};
+
+function dialectOption(dialect: DotenvDialect | undefined): { dialect?: DotenvDialect } {
+  return dialect ? { dialect } : {};
+}
+
+/** Last assignment per key, in order of each key's first appearance. */
+function assignmentsByKey(lines: readonly DotenvLine[]): Map<string, DotenvParsedAssignment> {
+  const byKey = new Map<string, DotenvParsedAssignment>();
+  for (const l of lines) {
+    if (l.kind === 'assignment') byKey.set(l.key, l);
+  }
+  return byKey;
+}
+
+export function diffDotenvExample(options: { realContents: string; exampleContents: string; dialect?: DotenvDialect }): DotenvExampleDiff {
+  const real = parseDotenvDocument(options.realContents, dialectOption(options.dialect));
+  const example = parseDotenvDocument(options.exampleContents, dialectOption(options.dialect));
+
+  const realKeys = assignmentsByKey(real.lines);
+  const exampleKeys = assignmentsByKey(example.lines);
+
+  const missing = [...realKeys.values()].filter((a) => !exampleKeys.has(a.key)).map((a) => ({ key: a.key, line: a.line }));
+  const extra = [...exampleKeys.values()].filter((a) => !realKeys.has(a.key)).map((a) => ({ key: a.key, line: a.line }));
+
+  return { missing, extra, issues: [...real.issues, ...example.issues] };
+}
+
+/** A shape-preserving placeholder that never derives from the value itself. */
+export function examplePlaceholder(value: string): string {
+  if (value.length === 0) return '';
+  if (isBooleanLike(value)) return 'false';
+  if (isNumberLike(value)) return '0';
+  if (looksLikeUrl(value)) return 'https://example.com';
+  return 'changeme';
+}
+
+function assignmentLine(key: string, value: string, dialect: DotenvDialect | undefined): DotenvParsedAssignment {
+  const raw = buildAssignmentLine(key, value, dialect);
+  const afterEqRaw = raw.slice(key.length + 1);
+  return {
+    line: 0,
+    endLine: 0,
+    raw,
+    leadingWhitespace: '',
+    exported: false,
+    key,
+    keyColumn: 1,
+    beforeEqWhitespace: '',
+    afterEqRaw,
+    quote: afterEqRaw.startsWith('"') ? 'double' : afterEqRaw.startsWith("'") ? 'single' : afterEqRaw.startsWith('`') ? 'backtick' : 'none',
+    value
+  };
+}
+
+/**
+ * Adds keys missing from the example with placeholder values. Existing lines are kept verbatim; each new key
+ * is inserted after the nearest preceding real-file key that the example already has (before the nearest
+ * following one when none precedes it), so the example keeps the real file's ordering.
+ */
+export function syncDotenvExample(options: {
+  realContents: string;
+  exampleContents: string;
+  placeholder?: string;
+  dialect?: DotenvDialect;
+}): SyncDotenvExampleResult {
+  const real = parseDotenvDocument(options.realContents, dialectOption(options.dialect));
+  const example = parseDotenvDocument(options.exampleContents, dialectOption(options.dialect));
+  const issues = [...real.issues, ...example.issues];
+
+  const realOrder = [...assignmentsByKey(real.lines).values()];
+  const lines: DotenvLine[] = [...example.lines];
+  const present = new Set(assignmentsByKey(example.lines).keys());
+  const added: string[] = [];
+
+  const indexAfter = (key: string): number => {
+    let index = -1;
+    lines.forEach((l, i) => {
+      if (l.kind === 'assignment' && l.key === key) index = i;
+    });
+    return index + 1;
+  };
+
+  /** Index of the first assignment of `key`, moved above the comment lines directly attached to it. */
+  const indexBefore = (key: string): number => {
+    let index = lines.findIndex((l) => l.kind === 'assignment' && l.key === key);
+    while (index > 0 && lines[index - 1]?.kind === 'comment') index--;
+    return index;
+  };
+
+  realOrder.forEach((a, position) => {
+    if (present.has(a.key)) return;
+
+    const placeholder = options.placeholder ?? examplePlaceholder(a.value);
+    const newLine: DotenvLine = { kind: 'assignment', ...assignmentLine(a.key, placeholder, options.dialect) };
+
+    const before = realOrder.slice(0, position).reverse().find((b) => present.has(b.key));
+    const after = realOrder.slice(position + 1).find((b) => present.has(b.key));
+
+    if (before) lines.splice(indexAfter(before.key), 0, newLine);
+    else if (after) lines.splice(indexBefore(after.key), 0, newLine);
+    else lines.push(newLine);
+
+    present.add(a.key);
+    added.push(a.key);
+  });
+
+  if (added.length === 0) return { output: options.exampleContents, issues, plan: [], hasChanges: false };
+
+  const output = stringifyDotenvDocument({ ...example, lines, endsWithNewline: example.endsWithNewline || example.lines.length === 0 });
+  const reparsed = assignmentsByKey(parseDotenvDocument(output, dialectOption(options.dialect)).lines);
+  const plan = added.map((key) => ({ key, action: 'added' as const, line: reparsed.get(key)?.line ?? 0 }));
+
+  return { output, issues, plan, hasChanges: true };
+}
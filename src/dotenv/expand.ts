@@ -0,0 +1,193 @@
+export type DotenvExpandOptions = {
+  /** Fallback for references not defined in the file. Defaults to `process.env`; `false` disables the fallback. */
+  processEnv?: Readonly<Record<string, string | undefined>> | false;
+};
+
+export type DotenvExpansionIssueKind = 'unresolved' | 'required' | 'cycle';
+
+export type DotenvExpansionIssue = {
+  key: string;
+  kind: DotenvExpansionIssueKind;
+  /** Variable names only: the missing reference, or the reference chain for a cycle. */
+  references: string[];
+};
+
+export type DotenvExpandResult = {
+  values: Map<string, string>;
+  issues: DotenvExpansionIssue[];
+};
+
+const NAME_START = /[A-Za-z_]/;
+const NAME_CHAR = /[A-Za-z0-9_]/;
+const BRACED_REFERENCE = /^([A-Za-z_][A-Za-z0-9_]*)(?:(:?[-?])([\s\S]*))?$/;
+
+function findClosingBrace(raw: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < raw.length; i++) {
+    const c = raw[i];
+    if (c === '\\') {
+      i++;
+      continue;
+    }
+    if (c === '{') depth++;
+    else if (c === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Expands `${VAR}`, `$VAR`, `${VAR:-default}`, `${VAR-default}`, `${VAR:?message}` and `${VAR?message}`
+ * references the way dotenv-expand does. `\$` yields a literal `$`. References resolve against the
+ * (expanded) values first and fall back to the process environment.
+ *
+ * Unresolved references expand to an empty string and are reported by name; values are never included in issues.
+ */
+export function expandDotenvValues(values: ReadonlyMap<string, string>, options: DotenvExpandOptions = {}): DotenvExpandResult {
+  const processEnv = options.processEnv === false ? {} : (options.processEnv ?? process.env);
+
+  const expanded = new Map<string, string>();
+  const issues: DotenvExpansionIssue[] = [];
+  const stack: string[] = [];
+
+  function resolve(name: string, owner: string): string | undefined {
+    const cached = expanded.get(name);
+    if (cached !== undefined) return cached;
+
+    // `PATH=$PATH:/extra` extends the inherited value; when there is none the reference is simply unset.
+    if (name === owner) return processEnv[name];
+
+    if (values.has(name)) {
+
+      const cycleStart = stack.indexOf(name);
+      if (cycleStart !== -1) {
+        reportCycle(stack.slice(cycleStart));
+        return '';
+      }
+      return expandKey(name);
+    }
+
+    return processEnv[name];
+  }
+
+  /** Every key in the cycle gets its own issue, with the chain starting at that key. */
+  function reportCycle(members: readonly string[]): void {
+    members.forEach((key, i) => {
+      const references = [...members.slice(i), ...members.slice(0, i), key];
+      const seen = issues.some((issue) => issue.kind === 'cycle' && issue.key === key && issue.references.join() === references.join());
+      if (!seen) issues.push({ key, kind: 'cycle', references });
+    });
+  }
+
+  function expandText(raw: string, owner: string): string {
+    let out = '';
+    for (let i = 0; i < raw.length; i++) {
+      const c = raw[i] ?? '';
+
+      if (c === '\\' && raw[i + 1] === '$') {
+        out += '$';
+        i++;
+        continue;
+      }
+
+      if (c !== '$') {
+        out += c;
+        continue;
+      }
+
+      const next = raw[i + 1] ?? '';
+      if (next === '{') {
+        const close = findClosingBrace(raw, i + 2);
+        if (close === -1) {
+          out += c;
+          continue;
+        }
+
+        const match = BRACED_REFERENCE.exec(raw.slice(i + 2, close));
+        if (!match) {
+          out += raw.slice(i, close + 1);
+          i = close;
+          continue;
+        }
+
+        const [, name = '', operator, argument = ''] = match;
+        out += expandReference(name, operator, argument, owner);
+        i = close;
+        continue;
+      }
+
+      if (NAME_START.test(next)) {
+        let end = i + 1;
+        while (end < raw.length && NAME_CHAR.test(raw[end] ?? '')) end++;
+        out += expandReference(raw.slice(i + 1, end), undefined, '', owner);
+        i = end - 1;
+        continue;
+      }
+
+      out += c;
+    }
+    return out;
+  }
+
+  function expandReference(name: string, operator: string | undefined, argument: string, owner: string): string {
+    const value = resolve(name, owner);
+    const unset = value === undefined;
+    const unsetOrEmpty = unset || value === '';
+
+    if (operator === ':-') return unsetOrEmpty ? expandText(argument, owner) : value;
+    if (operator === '-') return unset ? expandText(argument, owner) : value;
+
+    if ((operator === ':?' && unsetOrEmpty) || (operator === '?' && unset)) {
+      issues.push({ key: owner, kind: 'required', references: [name] });
+      return '';
+    }
+
+    if (unset) {
+      issues.push({ key: owner, kind: 'unresolved', references: [name] });
+      return '';
+    }
+    return value;
+  }
+
+  function expandKey(key: string): string {
+    stack.push(key);
+    const result = expandText(values.get(key) ?? '', key);
+    stack.pop();
+    expanded.set(key, result);
+    return result;
+  }
+
+  for (const key of values.keys()) {
+    if (!expanded.has(key)) expandKey(key);
+  }
+
+  return { values: new Map([...values.keys()].map((key) => [key, expanded.get(key) ?? ''])), issues };
+}
+
+export function describeExpansionIssue(issue: DotenvExpansionIssue): string {
+  if (issue.kind === 'cycle') return `Reference cycle in ${issue.key}: ${issue.references.join(' -> ')}`;
+  if (issue.kind === 'required') return `Required reference ${issue.references.join(', ')} is not set in ${issue.key}`;
+  return `Unresolved reference ${issue.references.join(', ')} in ${issue.key}`;
+}
+
+/**
+ * Expansion step shared by the sources. It expands the parser's `templates` (see `parseDotenv`), so escaped
+ * and single-quoted `$` stay literal. Required-reference and cycle issues are fatal unless `allowErrors` is set;
+ * unresolved references expand to an empty string like dotenv-expand.
+ */
+export function expandSourceValues(
+  parsed: { values: ReadonlyMap<string, string>; templates: ReadonlyMap<string, string> },
+  expand: boolean | DotenvExpandOptions | undefined,
+  allowErrors: boolean | undefined
+): ReadonlyMap<string, string> {
+  if (!expand) return parsed.values;
+
+  const result = expandDotenvValues(parsed.templates, expand === true ? {} : expand);
+  const fatal = result.issues.filter((i) => i.kind !== 'unresolved');
+  if (fatal.length > 0 && !allowErrors) {
+    throw new Error(`Invalid variable expansion: ${fatal.map(describeExpansionIssue).join(', ')}`);
+  }
+  return result.values;
+}
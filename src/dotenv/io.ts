@@ -10,13 +10,13 @@ export async function readTextFileOrEmpty(filePath: string): Promise<string> {
   }
 }
 
-export async function writeTextFileAtomic(filePath: string, contents: string): Promise<void> {
+export async function writeTextFileAtomic(filePath: string, contents: string, mode?: number): Promise<void> {
   const dir = dirname(filePath);
   const tmp = await mkdtemp(join(dir, '.envsitter-tmp-'));
   const tmpFile = join(tmp, 'file');
 
   try {
-    await writeFile(tmpFile, contents, 'utf8');
+    await writeFile(tmpFile, contents, { encoding: 'utf8', ...(mode !== undefined ? { mode } : {}) });
     await rename(tmpFile, filePath);
   } finally {
     await rm(tmp, { recursive: true, force: true });
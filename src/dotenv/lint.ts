@@ -0,0 +1,261 @@
+import type { DotenvDialect } from './dialect.js';
+import { parseDotenvDocument, stringifyDotenvDocument, type DotenvDocument, type DotenvLine, type DotenvParsedAssignment } from './document.js';
+
+export type LintRuleId =
+  | 'syntax'
+  | 'duplicate-key'
+  | 'lowercase-key'
+  | 'space-around-equals'
+  | 'unquoted-trailing-whitespace'
+  | 'mixed-export'
+  | 'final-newline'
+  | 'empty-section';
+
+export type LintSeverity = 'error' | 'warning' | 'off';
+
+export const LINT_RULES: Readonly<Record<LintRuleId, { severity: Exclude<LintSeverity, 'off'>; fixable: boolean; description: string }>> = {
+  syntax: { severity: 'error', fixable: false, description: 'Line cannot be parsed in the selected dialect' },
+  'duplicate-key': { severity: 'error', fixable: true, description: 'Key is assigned more than once; the last assignment wins' },
+  'lowercase-key': { severity: 'warning', fixable: false, description: 'Key contains lowercase letters' },
+  'space-around-equals': { severity: 'warning', fixable: true, description: 'Whitespace before or after =' },
+  'unquoted-trailing-whitespace': { severity: 'warning', fixable: true, description: 'Unquoted value is followed by trailing whitespace' },
+  'mixed-export': { severity: 'warning', fixable: true, description: 'Some assignments use export and others do not' },
+  'final-newline': { severity: 'warning', fixable: true, description: 'File does not end with a newline' },
+  'empty-section': { severity: 'warning', fixable: false, description: 'Section header comment has no assignments' }
+};
+
+export type LintFinding = {
+  rule: LintRuleId;
+  severity: Exclude<LintSeverity, 'off'>;
+  line: number;
+  column: number;
+  message: string;
+  key?: string;
+  fixable: boolean;
+};
+
+export type LintDotenvOptions = {
+  contents: string;
+  rules?: Partial<Record<LintRuleId, LintSeverity>>;
+  fix?: boolean;
+  dialect?: DotenvDialect;
+};
+
+export type LintDotenvResult = {
+  /** Findings left after fixes were applied (all findings when `fix` is off). */
+  findings: LintFinding[];
+  output: string;
+  fixed: number;
+  hasChanges: boolean;
+};
+
+const DISABLE_NEXT_LINE = /^\s*#\s*envsitter-disable-next-line\b(.*)$/;
+
+export function isLintRuleId(value: string): value is LintRuleId {
+  return Object.prototype.hasOwnProperty.call(LINT_RULES, value);
+}
+
+/** Maps the line after each `# envsitter-disable-next-line [rule, ...]` comment to the rules it disables (`all` when none are listed). */
+function collectSuppressions(doc: DotenvDocument): Map<number, Set<string>> {
+  const suppressions = new Map<number, Set<string>>();
+  for (let i = 0; i < doc.lines.length; i++) {
+    const l = doc.lines[i];
+    if (l?.kind !== 'comment') continue;
+
+    const match = DISABLE_NEXT_LINE.exec(l.raw);
+    if (!match) continue;
+
+    const next = doc.lines[i + 1];
+    if (!next) continue;
+
+    const rules = (match[1] ?? '')
+      .split(/[\s,]+/)
+      .map((r) => r.trim())
+      .filter((r) => r.length > 0);
+    suppressions.set(next.line, new Set(rules.length > 0 ? rules : ['all']));
+  }
+  return suppressions;
+}
+
+function assignmentsOf(lines: readonly DotenvLine[]): DotenvParsedAssignment[] {
+  const out: DotenvParsedAssignment[] = [];
+  for (const l of lines) {
+    if (l.kind === 'assignment') out.push(l);
+  }
+  return out;
+}
+
+function majorityExport(assignments: readonly DotenvParsedAssignment[]): boolean {
+  const exported = assignments.filter((a) => a.exported).length;
+  return exported > assignments.length - exported;
+}
+
+type RawFinding = Omit<LintFinding, 'severity' | 'fixable'>;
+
+function runRules(doc: DotenvDocument): RawFinding[] {
+  const findings: RawFinding[] = [];
+  const assignments = assignmentsOf(doc.lines);
+
+  for (const issue of doc.issues) {
+    findings.push({ rule: 'syntax', line: issue.line, column: issue.column, message: issue.message });
+  }
+
+  const lastLineByKey = new Map<string, number>();
+  for (const a of assignments) lastLineByKey.set(a.key, a.line);
+
+  for (const a of assignments) {
+    const lastLine = lastLineByKey.get(a.key) ?? a.line;
+    if (lastLine !== a.line) {
+      findings.push({ rule: 'duplicate-key', line: a.line, column: a.keyColumn, key: a.key, message: `Duplicate key ${a.key} (L${lastLine} wins)` });
+    }
+
+    if (a.key !== a.key.toUpperCase()) {
+      findings.push({ rule: 'lowercase-key', line: a.line, column: a.keyColumn, key: a.key, message: `Key ${a.key} should be uppercase` });
+    }
+
+    if (a.beforeEqWhitespace.length > 0 || /^[ \t]/.test(a.afterEqRaw)) {
+      findings.push({ rule: 'space-around-equals', line: a.line, column: a.keyColumn + a.key.length, key: a.key, message: `Whitespace around = in ${a.key}` });
+    }
+
+    if (a.quote === 'none' && a.afterEqRaw.trim().length > 0 && /[ \t]$/.test(a.raw)) {
+      findings.push({ rule: 'unquoted-trailing-whitespace', line: a.line, column: a.raw.trimEnd().length + 1, key: a.key, message: `Unquoted assignment of ${a.key} has trailing whitespace` });
+    }
+  }
+
+  const exportedCount = assignments.filter((a) => a.exported).length;
+  if (exportedCount > 0 && exportedCount < assignments.length) {
+    const useExport = majorityExport(assignments);
+    for (const a of assignments) {
+      if (a.exported === useExport) continue;
+      findings.push({
+        rule: 'mixed-export',
+        line: a.line,
+        column: a.leadingWhitespace.length + 1,
+        key: a.key,
+        message: useExport ? `${a.key} is missing export` : `${a.key} uses export`
+      });
+    }
+  }
+
+  if (doc.lines.length > 0 && !doc.endsWithNewline) {
+    const last = doc.lines.at(-1);
+    const lastLine = last ? (last.kind === 'assignment' ? last.endLine : last.line) : 1;
+    findings.push({ rule: 'final-newline', line: lastLine, column: 1, message: 'Missing final newline' });
+  }
+
+  findings.push(...emptySections(doc.lines));
+
+  return findings.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * A section header is a comment block that follows a blank line. It is empty when no assignment appears
+ * before the next header or the end of the file. A comment block at the very top of the file is a preamble.
+ */
+function emptySections(lines: readonly DotenvLine[]): RawFinding[] {
+  const findings: RawFinding[] = [];
+  let header: DotenvLine | undefined;
+  let sawAssignment = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const l = lines[i];
+    if (!l) continue;
+
+    const prev = lines[i - 1];
+    if (l.kind === 'comment' && prev?.kind === 'blank') {
+      if (header && !sawAssignment) findings.push({ rule: 'empty-section', line: header.line, column: 1, message: 'Section has no assignments' });
+      header = l;
+      sawAssignment = false;
+      continue;
+    }
+
+    if (l.kind === 'assignment') sawAssignment = true;
+  }
+
+  if (header && !sawAssignment) findings.push({ rule: 'empty-section', line: header.line, column: 1, message: 'Section has no assignments' });
+  return findings;
+}
+
+function resolveFindings(doc: DotenvDocument, rules: Partial<Record<LintRuleId, LintSeverity>>): LintFinding[] {
+  const suppressions = collectSuppressions(doc);
+  const out: LintFinding[] = [];
+
+  for (const f of runRules(doc)) {
+    const severity = rules[f.rule] ?? LINT_RULES[f.rule].severity;
+    if (severity === 'off') continue;
+
+    const suppressed = suppressions.get(f.line);
+    if (suppressed && (suppressed.has('all') || suppressed.has(f.rule))) continue;
+
+    out.push({ ...f, severity, fixable: LINT_RULES[f.rule].fixable });
+  }
+
+  return out;
+}
+
+function rebuildAssignment(a: DotenvParsedAssignment, fixes: ReadonlySet<LintRuleId>, useExport: boolean): DotenvParsedAssignment {
+  const exported = fixes.has('mixed-export') ? useExport : a.exported;
+  const originalExportToken = a.raw.slice(a.leadingWhitespace.length, a.keyColumn - 1);
+  const exportToken = exported ? (a.exported ? originalExportToken : 'export ') : '';
+
+  const beforeEqWhitespace = fixes.has('space-around-equals') ? '' : a.beforeEqWhitespace;
+  let afterEqRaw = fixes.has('space-around-equals') ? a.afterEqRaw.trimStart() : a.afterEqRaw;
+  if (fixes.has('unquoted-trailing-whitespace')) afterEqRaw = afterEqRaw.trimEnd();
+
+  const raw = `${a.leadingWhitespace}${exportToken}${a.key}${beforeEqWhitespace}=${afterEqRaw}`;
+  return { ...a, raw, exported, beforeEqWhitespace, afterEqRaw, keyColumn: a.leadingWhitespace.length + exportToken.length + 1 };
+}
+
+function applyFixes(doc: DotenvDocument, findings: readonly LintFinding[]): { doc: DotenvDocument; fixed: number } {
+  const fixesByLine = new Map<number, Set<LintRuleId>>();
+  let finalNewline = false;
+
+  for (const f of findings) {
+    if (!f.fixable) continue;
+    if (f.rule === 'final-newline') {
+      finalNewline = true;
+      continue;
+    }
+    const set = fixesByLine.get(f.line) ?? new Set<LintRuleId>();
+    set.add(f.rule);
+    fixesByLine.set(f.line, set);
+  }
+
+  // Counts edits, not findings: deleting a duplicate line is one fix, whatever else was wrong with it.
+  let fixed = finalNewline ? 1 : 0;
+  const useExport = majorityExport(assignmentsOf(doc.lines));
+  const lines: DotenvLine[] = [];
+  for (const l of doc.lines) {
+    const fixes = fixesByLine.get(l.line);
+    if (l.kind !== 'assignment' || !fixes) {
+      lines.push(l);
+      continue;
+    }
+    if (fixes.has('duplicate-key')) {
+      fixed++;
+      continue;
+    }
+    fixed += fixes.size;
+    lines.push({ kind: 'assignment', ...rebuildAssignment(l, fixes, useExport) });
+  }
+
+  return { doc: { ...doc, lines, endsWithNewline: doc.endsWithNewline || finalNewline }, fixed };
+}
+
+export function lintDotenv(options: LintDotenvOptions): LintDotenvResult {
+  const parseOptions = options.dialect ? { dialect: options.dialect } : {};
+  const rules = options.rules ?? {};
+
+  const doc = parseDotenvDocument(options.contents, parseOptions);
+  const findings = resolveFindings(doc, rules);
+
+  if (!options.fix || !findings.some((f) => f.fixable)) {
+    return { findings, output: options.contents, fixed: 0, hasChanges: false };
+  }
+
+  const { doc: fixedDoc, fixed } = applyFixes(doc, findings);
+  const output = stringifyDotenvDocument(fixedDoc);
+  const remaining = resolveFindings(parseDotenvDocument(output, parseOptions), rules);
+
+  return { findings: remaining, output, fixed, hasChanges: output !== options.contents };
+}
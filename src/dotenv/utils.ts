@@ -1,14 +1,36 @@
+import type { DotenvDialect } from './dialect.js';
+
 const EXAMPLE_FILE_PATTERN = /\.env\.(example|sample|template|dist|defaults?)$/i;
 
 export function isExampleEnvFile(filePath: string): boolean {
   return EXAMPLE_FILE_PATTERN.test(filePath);
 }
 
-export function quoteValue(value: string): string {
+const ENV_FILE_PATTERN = /(?:^|[\\/])(?:\.env(?:\.[^\\/]+)?|[^\\/]+\.env)$/i;
+
+/** `.env`, `.env.<anything>` and `<name>.env`, examples included (see `isExampleEnvFile`). */
+export function isEnvFile(filePath: string): boolean {
+  return ENV_FILE_PATTERN.test(filePath);
+}
+
+function escapeDoubleQuoted(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * Quotes a value so that the given dialect reads it back unchanged. The `dotenv` npm dialect only
+ * decodes `\n`/`\r` in double quotes and `bash` decodes none, so they fall back to literal quoting.
+ */
+export function quoteValue(value: string, dialect: DotenvDialect = 'envsitter'): string {
   if (value === '') return '';
 
   const hasWhitespace = /\s/.test(value);
-  const hasSpecialChars = /[#"'\\$`]/.test(value);
+  const hasSpecialChars = (dialect === 'bash' ? /[#"'\\$`;&|<>()]/ : /[#"'\\$`]/).test(value);
   const hasControlChars = /[\n\r\t]/.test(value);
   const hasEdgeSpaces = value.startsWith(' ') || value.endsWith(' ');
 
@@ -16,16 +38,74 @@ export function quoteValue(value: string): string {
 
   if (!needsQuoting) return value;
 
-  const escaped = value
-    .replace(/\\/g, '\\\\')
-    .replace(/"/g, '\\"')
-    .replace(/\n/g, '\\n')
-    .replace(/\r/g, '\\r')
-    .replace(/\t/g, '\\t');
+  if (dialect === 'bash') {
+    if (!value.includes("'")) return `'${value}'`;
+    return `"${value.replace(/[\\"$`]/g, (c) => `\\${c}`)}"`;
+  }
 
-  return `"${escaped}"`;
+  if (dialect === 'dotenv') {
+    if (!/["\\]/.test(value)) return `"${value.replace(/\n/g, '\\n').replace(/\r/g, '\\r')}"`;
+    if (!value.includes("'")) return `'${value}'`;
+    if (!value.includes('`')) return `\`${value}\``;
+    throw new Error('Value cannot be represented in the dotenv dialect');
+  }
+
+  return `"${escapeDoubleQuoted(value)}"`;
 }
 
-export function buildAssignmentLine(key: string, value: string): string {
-  return `${key}=${quoteValue(value)}`;
+export function buildAssignmentLine(key: string, value: string, dialect: DotenvDialect = 'envsitter'): string {
+  return `${key}=${quoteValue(value, dialect)}`;
+}
+
+export type DotenvQuoteChar = "'" | '"' | '`';
+
+export function isQuoteChar(char: string | undefined): char is DotenvQuoteChar {
+  return char === "'" || char === '"' || char === '`';
+}
+
+/**
+ * Returns the index of the quote closing a value that opens at `openIndex`, or -1.
+ * Inside the `backslashQuotes` quote kinds a backslash escapes the next character; other quotes are literal.
+ */
+export function findClosingQuote(text: string, openIndex: number, backslashQuotes: readonly DotenvQuoteChar[] = ['"']): number {
+  const quote = text[openIndex];
+  const escapable = isQuoteChar(quote) && backslashQuotes.includes(quote);
+  for (let i = openIndex + 1; i < text.length; i++) {
+    const c = text[i];
+    if (escapable && c === '\\') {
+      i++;
+      continue;
+    }
+    if (c === quote) return i;
+  }
+  return -1;
+}
+
+/**
+ * Given physical lines and the index of an assignment line, returns the index of the last
+ * physical line of the assignment. Quoted values may span lines; an unterminated quote
+ * never swallows the rest of the file and is reported on its own line instead.
+ */
+export function assignmentEndIndex(
+  lines: readonly string[],
+  index: number,
+  quoting: { quotes: readonly DotenvQuoteChar[]; backslashQuotes: readonly DotenvQuoteChar[] }
+): number {
+  const first = lines[index] ?? '';
+  if (first.trimStart().startsWith('#')) return index;
+
+  const eq = first.indexOf('=');
+  if (eq === -1) return index;
+
+  const afterEq = first.slice(eq + 1);
+  const openOffset = afterEq.length - afterEq.trimStart().length;
+  const open = afterEq[openOffset];
+  if (!isQuoteChar(open) || !quoting.quotes.includes(open)) return index;
+
+  let text = afterEq.slice(openOffset);
+  for (let end = index; end < lines.length; end++) {
+    if (end > index) text += `\n${lines[end] ?? ''}`;
+    if (findClosingQuote(text, 0, quoting.backslashQuotes) !== -1) return end;
+  }
+  return index;
 }
@@ -1,12 +1,36 @@
 import { timingSafeEqual } from 'node:crypto';
-import { base64UrlEncode } from './encoding.js';
-import { fingerprintValueHmacSha256 } from './fingerprint.js';
-import { resolvePepper, type PepperOptions } from './pepper.js';
-import { DotenvFileSource } from './sources/dotenvFile.js';
-import { ExternalCommandSource } from './sources/externalCommand.js';
+import { base64DecodeToBytes, base64UrlEncode } from './encoding.js';
+import {
+  DEFAULT_SCRYPT_PARAMS,
+  fingerprintValue,
+  fingerprintValueHmacSha256,
+  type FingerprintAlgorithm,
+  type FingerprintSpec,
+  type ScryptParams
+} from './fingerprint.js';
+import { acceptedPeppers, resolvePepper, type PepperOptions, type PepperResult } from './pepper.js';
+import { auditValues, lengthBucket, type AuditOptions, type AuditResult } from './audit.js';
+import type { EnvLock, EnvLockKey, EnvLockKeyResult, EnvLockVerifyResult } from './lock.js';
+import { checkEnvSchema, type EnvSchema, type EnvSchemaCheckResult } from './schema.js';
+import { parseConnectionString, type ConnectionStringAnalysis } from './connection-string.js';
+import { getDetector, listDetectors, type Detection, type DetectorMatch } from './detectors.js';
+import { findStagedLeaks, type FindStagedLeaksOptions, type FindStagedLeaksResult } from './leaks/staged.js';
+import { RedactStream, type RedactOptions } from './leaks/redact.js';
+import { findLeaksInGitHistory, type FindGitLeaksOptions, type FindGitLeaksResult } from './leaks/git.js';
+import { findLeaksInWorkingTree, type FindLeaksOptions, type FindLeaksResult } from './leaks/worktree.js';
+import { inspectCertificate, inspectPrivateKey, privateKeyMatchesCertificate, type CertificateInspection, type PrivateKeyInspection } from './pem.js';
+import { inspectJwt, isJwtExpired, jwtExpiresWithin, type JwtInspection } from './jwt.js';
+import { isBooleanLike, isNumberLike, valueShape, type ValueShape } from './value-shapes.js';
+import type { DotenvQuote } from './dotenv/document.js';
+import type { DotenvAssignmentSyntax } from './dotenv/parse.js';
+import { DotenvFileSource, type DotenvFileSourceOptions } from './sources/dotenvFile.js';
+import { DotenvLayersSource, type DotenvKeyProvenance, type DotenvLayersSourceOptions } from './sources/dotenvLayers.js';
+import { ExternalCommandSource, type ExternalCommandSourceOptions } from './sources/externalCommand.js';
 
 type Snapshot = {
   values: ReadonlyMap<string, string>;
+  provenance?: ReadonlyMap<string, DotenvKeyProvenance>;
+  syntax?: ReadonlyMap<string, DotenvAssignmentSyntax>;
 };
 
 type Source = {
@@ -15,47 +39,219 @@ type Source = {
 
 export type EnvSitterFingerprint = {
   key: string;
-  algorithm: 'hmac-sha256';
+  algorithm: FingerprintAlgorithm;
+  /** Cost parameters, for `scrypt`. */
+  params?: ScryptParams;
   fingerprint: string;
   length: number;
-  pepperSource: 'env' | 'file';
+  /** Identifies the pepper that produced `fingerprint`, so it can still be verified after a rotation. */
+  pepperId: string;
+  pepperSource: PepperResult['source'];
   pepperFilePath?: string;
+  provenance?: DotenvKeyProvenance;
 };
 
 export type EnvSitterKeyMatch = {
   key: string;
   match: boolean;
+  provenance?: DotenvKeyProvenance;
+};
+
+export type EnvSitterKeyInfo = {
+  key: string;
+  provenance?: DotenvKeyProvenance;
 };
 
 export type EnvSitterMatcher =
   | { op: 'exists' }
   | { op: 'is_empty' }
   | { op: 'is_equal'; candidate: string }
+  /** A stored fingerprint (e.g. `fingerprintKey()` output), recomputed with its own algorithm (default `hmac-sha256`) and pepper. */
+  | { op: 'is_equal'; fingerprint: string; pepperId?: string; algorithm?: FingerprintAlgorithm; params?: ScryptParams }
   | { op: 'partial_match_regex'; regex: RegExp }
   | { op: 'partial_match_prefix'; prefix: string }
   | { op: 'partial_match_suffix'; suffix: string }
   | { op: 'is_number' }
   | { op: 'is_string' }
-  | { op: 'is_boolean' };
+  | { op: 'is_boolean' }
+  | { op: 'jwt_expired' }
+  | { op: 'jwt_expires_within'; days: number }
+  | { op: 'host_is_equal'; candidate: string }
+  | { op: 'database_is_equal'; candidate: string }
+  /** Same as `is_equal` with a stored fingerprint. */
+  | { op: 'fingerprint_is_equal'; fingerprint: string; pepperId?: string; algorithm?: FingerprintAlgorithm; params?: ScryptParams };
+
+/** Ops compared by HMAC fingerprint against a candidate instead of evaluated in-process. */
+type FingerprintMatcher = Extract<EnvSitterMatcher, { op: 'is_equal' | 'host_is_equal' | 'database_is_equal'; candidate: string }>;
+
+/** Ops compared against a stored fingerprint with the algorithm recorded in it. */
+type StoredFingerprintMatcher = Extract<EnvSitterMatcher, { fingerprint: string }>;
+
+export type { Detection };
 
-export type Detection = 'jwt' | 'url' | 'base64';
+export type ScanMatch = DetectorMatch & {
+  detection: Detection;
+};
 
 export type ScanFinding = {
   key: string;
   detections: Detection[];
+  matches: ScanMatch[];
+  /** Decoded JWT metadata, present when JWT inspection is enabled and the value decodes as a JWT. */
+  jwt?: JwtInspection;
+  /** Connection-string metadata, present when connection analysis is enabled and the value is a database/broker URL. */
+  connection?: ConnectionStringAnalysis;
+  /** X.509 leaf certificate metadata, present when PEM inspection is enabled. */
+  certificate?: CertificateInspection;
+  /** Private key metadata, present when PEM inspection is enabled. */
+  privateKey?: ScanPrivateKey;
+};
+
+export type ScanPrivateKey = PrivateKeyInspection & {
+  /** Keys of the source holding a certificate whose public key matches this private key. */
+  matchesCertificateIn: string[];
+};
+
+export type ScanPemOptions = {
+  /** Report `expiring_soon` when a certificate expires within this many days (default 30). */
+  expiringWithinDays?: number;
+  now?: Date;
+};
+
+export type ScanJwtOptions = {
+  /** Report `expiring_soon` when `exp` falls within this many days (default 30). */
+  expiringWithinDays?: number;
+  /** Replace `iss` and `aud` with HMAC fingerprints (uses the pepper). */
+  hashClaims?: boolean;
+  now?: Date;
 };
 
 export type ScanOptions = {
   keysFilter?: RegExp;
+  /** Detector IDs to run; defaults to every registered detector. */
   detect?: readonly Detection[];
+  /** Decode JWT header/payload metadata and report expiry and `alg: none` findings. */
+  jwt?: boolean | ScanJwtOptions;
+  /** Analyze database/broker URLs (scheme, credentials, TLS, host class). */
+  connections?: boolean;
+  /** Inspect PEM certificates and private keys (validity, key algorithm and size, encryption, key/cert pairs). */
+  pem?: boolean | ScanPemOptions;
+  pepper?: PepperOptions;
+};
+
+export type InspectOptions = {
+  keysFilter?: RegExp;
+  /** Report `expiring_soon` for JWTs and certificates expiring within this many days (default 30). */
+  expiringWithinDays?: number;
+  /** Replace JWT `iss` and `aud` with HMAC fingerprints (uses the pepper). */
+  hashClaims?: boolean;
+  now?: Date;
+  pepper?: PepperOptions;
+};
+
+/** Metadata for a value that one of the inspectors understands: JWT, connection string, certificate or private key. */
+export type InspectedKey = Omit<ScanFinding, 'detections' | 'matches'>;
+
+export type EnvSitterNamedSource = {
+  name: string;
+  envsitter: EnvSitter;
+};
+
+export type EnvSitterComparisonCell =
+  | { present: false }
+  | {
+      present: true;
+      empty: boolean;
+      /** Label shared by every environment holding the same value for this key (`A`, `B`, ...). */
+      group: string;
+      shape: ValueShape;
+    };
+
+export type EnvSitterComparisonRow = {
+  key: string;
+  cells: Record<string, EnvSitterComparisonCell>;
+  missingIn: string[];
+  /** Environments that share the same non-empty value, one entry per group of two or more. */
+  sharedIn: string[][];
+};
+
+export type EnvSitterComparison = {
+  environments: string[];
+  keys: EnvSitterComparisonRow[];
+};
+
+export type EnvSitterDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export type EnvSitterDiffSide = {
+  /** Set for layered sources. */
+  file?: string;
+  line?: number;
+  quote?: DotenvQuote;
+  exported?: boolean;
+};
+
+export type EnvSitterDiffEntry = {
+  key: string;
+  status: EnvSitterDiffStatus;
+  /** Where the key is in `this` (the old source); absent for added keys. */
+  before?: EnvSitterDiffSide;
+  /** Where the key is in `other` (the new source); absent for removed keys. */
+  after?: EnvSitterDiffSide;
+  quoteChanged?: boolean;
+  exportChanged?: boolean;
+};
+
+export type EnvSitterDiff = {
+  entries: EnvSitterDiffEntry[];
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  /** True when any key was added, removed or changed value. Quote/export-only changes do not count. */
+  hasChanges: boolean;
+  hasRemovals: boolean;
 };
 
 export type ListKeysOptions = {
   filter?: RegExp;
 };
 
+/** Passed to `listKeys` and `matchKey` to get `{ key, provenance }` results instead of names or booleans. */
+export type ProvenanceOption = {
+  withProvenance: true;
+};
+
+/** Picks the algorithm for keys matching `keys`, e.g. `scrypt` for `/PASSWORD|PIN/`. */
+export type FingerprintAlgorithmRule = {
+  keys: RegExp;
+  algorithm: FingerprintSpec;
+};
+
 export type MatchOptions = {
   pepper?: PepperOptions;
+  /** Algorithm for new fingerprints (default `hmac-sha256`). Stored fingerprints are always checked with their own. */
+  algorithm?: FingerprintSpec;
+  /** Per-key overrides of `algorithm`; the first matching rule wins. */
+  algorithmRules?: readonly FingerprintAlgorithmRule[];
+};
+
+export type EnvLockOptions = MatchOptions & {
+  keysFilter?: RegExp;
+};
+
+/** A stored fingerprint to re-check against the current value; `fingerprintKey()` output qualifies. */
+export type StoredFingerprint = Pick<EnvSitterFingerprint, 'key' | 'fingerprint'> & Partial<EnvSitterFingerprint>;
+
+export type RefingerprintStatus = 'rekeyed' | 'current' | 'stale' | 'missing';
+
+export type RefingerprintResult = {
+  /** The input fingerprints, with `rekeyed` ones replaced by fingerprints from the active pepper (and selected algorithm). */
+  fingerprints: StoredFingerprint[];
+  /**
+   * Per input: `rekeyed` (value still matches, now under the active pepper), `current` (already the active pepper),
+   * `stale` (value changed, or its pepper is no longer accepted) or `missing` (key not in the source).
+   */
+  statuses: Array<{ key: string; status: RefingerprintStatus }>;
 };
 
 export class EnvSitter {
@@ -65,19 +261,74 @@ export class EnvSitter {
     this.source = source;
   }
 
-  static fromDotenvFile(filePath: string): EnvSitter {
-    return new EnvSitter(new DotenvFileSource(filePath));
+  static fromDotenvFile(filePath: string, options: DotenvFileSourceOptions = {}): EnvSitter {
+    return new EnvSitter(new DotenvFileSource(filePath, options));
+  }
+
+  /** Layers are ordered lowest precedence first, e.g. `dotenvLayerFilePaths('production')`. */
+  static fromDotenvLayers(filePaths: readonly string[], options: DotenvLayersSourceOptions = {}): EnvSitter {
+    return new EnvSitter(new DotenvLayersSource(filePaths, options));
   }
 
-  static fromExternalCommand(command: string, args: readonly string[] = []): EnvSitter {
-    return new EnvSitter(new ExternalCommandSource(command, args));
+  static fromExternalCommand(command: string, args: readonly string[] = [], options: ExternalCommandSourceOptions = {}): EnvSitter {
+    return new EnvSitter(new ExternalCommandSource(command, args, options));
   }
 
-  async listKeys(options: ListKeysOptions = {}): Promise<string[]> {
+  /**
+   * Builds a key × environment matrix over N sources. Values are compared in-process by HMAC fingerprint
+   * (one pepper for all sources); the result holds presence, group labels, empty-ness and shapes only.
+   */
+  static async compare(sources: readonly EnvSitterNamedSource[], options: MatchOptions = {}): Promise<EnvSitterComparison> {
+    const environments = sources.map((s) => s.name);
+    const duplicate = environments.find((name, i) => environments.indexOf(name) !== i);
+    if (duplicate !== undefined) throw new Error(`Duplicate source name: ${duplicate}`);
+
+    const snapshots = await Promise.all(sources.map((s) => s.envsitter.source.load()));
+    const pepper = await resolvePepper(options.pepper);
+
+    const allKeys = new Set<string>();
+    for (const snapshot of snapshots) for (const key of snapshot.values.keys()) allKeys.add(key);
+
+    const keys: EnvSitterComparisonRow[] = [];
+    for (const key of [...allKeys].sort((a, b) => a.localeCompare(b))) {
+      const cells: Record<string, EnvSitterComparisonCell> = {};
+      const groups = new Map<string, { label: string; members: string[] }>();
+      const missingIn: string[] = [];
+
+      snapshots.forEach((snapshot, i) => {
+        const name = environments[i] ?? '';
+        const value = snapshot.values.get(key);
+        if (value === undefined) {
+          cells[name] = { present: false };
+          missingIn.push(name);
+          return;
+        }
+
+        const digest = base64UrlEncode(fingerprintValueHmacSha256(value, pepper.pepperBytes).digestBytes);
+        const group = groups.get(digest) ?? { label: groupLabel(groups.size), members: [] };
+        group.members.push(name);
+        groups.set(digest, group);
+
+        cells[name] = { present: true, empty: value.length === 0, group: group.label, shape: valueShape(value) };
+      });
+
+      const sharedIn = [...groups.values()]
+        .filter((g) => g.members.length > 1 && g.members.some((name) => cells[name]?.present && !cells[name].empty))
+        .map((g) => g.members);
+
+      keys.push({ key, cells, missingIn, sharedIn });
+    }
+
+    return { environments, keys };
+  }
+
+  listKeys(options: ListKeysOptions & ProvenanceOption): Promise<EnvSitterKeyInfo[]>;
+  listKeys(options?: ListKeysOptions & { withProvenance?: false }): Promise<string[]>;
+  async listKeys(options: ListKeysOptions & { withProvenance?: boolean } = {}): Promise<string[] | EnvSitterKeyInfo[]> {
     const snapshot = await this.source.load();
-    const keys = [...snapshot.values.keys()].sort((a, b) => a.localeCompare(b));
-    if (!options.filter) return keys;
-    return keys.filter((k) => options.filter?.test(k));
+    const keys = [...snapshot.values.keys()].sort((a, b) => a.localeCompare(b)).filter((k) => !options.filter || options.filter.test(k));
+    if (!options.withProvenance) return keys;
+    return keys.map((key) => ({ key, ...provenanceFor(snapshot, key) }));
   }
 
   async fingerprintKey(key: string, options: MatchOptions = {}): Promise<EnvSitterFingerprint> {
@@ -86,39 +337,132 @@ export class EnvSitter {
     if (value === undefined) throw new Error(`Key not found: ${key}`);
 
     const pepper = await resolvePepper(options.pepper);
-    const fp = fingerprintValueHmacSha256(value, pepper.pepperBytes);
+    return fingerprintRecord(snapshot, key, value, pepper, selectedSpec(key, options) ?? { algorithm: 'hmac-sha256' });
+  }
 
-    return {
-      key,
-      algorithm: fp.algorithm,
-      fingerprint: base64UrlEncode(fp.digestBytes),
-      length: value.length,
-      pepperSource: pepper.source,
-      ...(pepper.pepperFilePath ? { pepperFilePath: pepper.pepperFilePath } : {})
-    };
+  /**
+   * Brings stored fingerprints (e.g. a saved manifest) over to the active pepper after a rotation. Each one is first
+   * verified against the current value with the pepper that made it, so a changed value is never silently re-approved.
+   * Fingerprints keep their algorithm unless `algorithm`/`algorithmRules` select another one for the key.
+   */
+  async refingerprint(stored: readonly StoredFingerprint[], options: MatchOptions = {}): Promise<RefingerprintResult> {
+    const snapshot = await this.source.load();
+    const pepper = await resolvePepper(options.pepper);
+
+    const fingerprints: StoredFingerprint[] = [];
+    const statuses: RefingerprintResult['statuses'] = [];
+    for (const fp of stored) {
+      const value = snapshot.values.get(fp.key);
+      let status: RefingerprintStatus;
+      const target = selectedSpec(fp.key, options) ?? storedSpec(fp);
+      if (value === undefined) status = 'missing';
+      else if (!matchesStoredFingerprint(value, fp, pepper)) status = 'stale';
+      else status = fp.pepperId === pepper.pepperId && sameSpec(storedSpec(fp), target) ? 'current' : 'rekeyed';
+
+      fingerprints.push(status === 'rekeyed' && value !== undefined ? fingerprintRecord(snapshot, fp.key, value, pepper, target) : fp);
+      statuses.push({ key: fp.key, status });
+    }
+
+    return { fingerprints, statuses };
   }
 
-  async matchKey(key: string, matcher: EnvSitterMatcher, options: MatchOptions = {}): Promise<boolean> {
+  /** Records every key's fingerprint, pepper ID, length bucket and shape; see `stringifyEnvLock()` for the file form. */
+  async snapshot(options: EnvLockOptions = {}): Promise<EnvLock> {
     const snapshot = await this.source.load();
+    const pepper = await resolvePepper(options.pepper);
 
-    if (matcher.op === 'exists') return snapshot.values.has(key);
+    const keys: Record<string, EnvLockKey> = {};
+    for (const key of [...snapshot.values.keys()].sort((a, b) => a.localeCompare(b))) {
+      if (options.keysFilter && !options.keysFilter.test(key)) continue;
+      const value = snapshot.values.get(key) ?? '';
+      const fp = fingerprintRecord(snapshot, key, value, pepper, selectedSpec(key, options) ?? { algorithm: 'hmac-sha256' });
+      keys[key] = {
+        algorithm: fp.algorithm,
+        ...(fp.params ? { params: fp.params } : {}),
+        fingerprint: fp.fingerprint,
+        pepperId: fp.pepperId,
+        lengthBucket: lengthBucket(value.length),
+        shape: valueShape(value)
+      };
+    }
 
-    const value = snapshot.values.get(key);
-    if (value === undefined) return false;
+    return { version: 1, keys };
+  }
 
-    if (matcher.op === 'is_equal') {
-      const pepper = await resolvePepper(options.pepper);
-      const candidateFp = fingerprintValueHmacSha256(matcher.candidate, pepper.pepperBytes);
-      const valueFp = fingerprintValueHmacSha256(value, pepper.pepperBytes);
+  /**
+   * Compares the source with a lock from `snapshot()`. Values are checked against the recorded fingerprints with the
+   * pepper that made them, so a lock keeps verifying through a pepper rotation's grace window.
+   */
+  async verify(lock: EnvLock, options: EnvLockOptions = {}): Promise<EnvLockVerifyResult> {
+    const snapshot = await this.source.load();
+    const pepper = await resolvePepper(options.pepper);
+    const pepperIds = new Set(acceptedPeppers(pepper).map((p) => p.pepperId));
 
-      const a = Buffer.from(candidateFp.digestBytes);
-      const b = Buffer.from(valueFp.digestBytes);
+    const allKeys = new Set([...snapshot.values.keys(), ...Object.keys(lock.keys)]);
+    const keys: EnvLockKeyResult[] = [];
+    for (const key of [...allKeys].sort((a, b) => a.localeCompare(b))) {
+      if (options.keysFilter && !options.keysFilter.test(key)) continue;
+      const value = snapshot.values.get(key);
+      const locked = lock.keys[key];
+      const current = value !== undefined ? { lengthBucket: lengthBucket(value.length), shape: valueShape(value) } : undefined;
+      const sides = {
+        ...(locked ? { locked: { lengthBucket: locked.lengthBucket, shape: locked.shape } } : {}),
+        ...(current ? { current } : {})
+      };
+
+      if (!locked) keys.push({ key, status: 'added', ...sides });
+      else if (value === undefined) keys.push({ key, status: 'removed', ...sides });
+      else if (!pepperIds.has(locked.pepperId)) keys.push({ key, status: 'unverifiable', ...sides });
+      else keys.push({ key, status: matchesStoredFingerprint(value, locked, pepper) ? 'unchanged' : 'changed', ...sides });
+    }
 
-      if (a.length !== b.length) return false;
-      return timingSafeEqual(a, b);
+    const count = (status: EnvLockKeyResult['status']) => keys.filter((k) => k.status === status).length;
+    const unchanged = count('unchanged');
+    return {
+      ok: unchanged === keys.length,
+      added: count('added'),
+      removed: count('removed'),
+      changed: count('changed'),
+      unverifiable: count('unverifiable'),
+      unchanged,
+      keys
+    };
+  }
+
+  /** `refingerprint()` for a lock: entries whose value still matches move to the active pepper, the rest stay as they were. */
+  async refingerprintLock(lock: EnvLock, options: MatchOptions = {}): Promise<{ lock: EnvLock; statuses: RefingerprintResult['statuses'] }> {
+    const stored = Object.entries(lock.keys).map(([key, entry]) => ({
+      key,
+      algorithm: entry.algorithm,
+      ...(entry.params ? { params: entry.params } : {}),
+      fingerprint: entry.fingerprint,
+      pepperId: entry.pepperId
+    }));
+    const result = await this.refingerprint(stored, options);
+
+    const keys: Record<string, EnvLockKey> = { ...lock.keys };
+    for (const fp of result.fingerprints) {
+      const entry = keys[fp.key];
+      if (!entry || fp.pepperId === undefined) continue;
+      keys[fp.key] = {
+        algorithm: fp.algorithm ?? entry.algorithm,
+        ...(fp.params ? { params: fp.params } : {}),
+        fingerprint: fp.fingerprint,
+        pepperId: fp.pepperId,
+        lengthBucket: entry.lengthBucket,
+        shape: entry.shape
+      };
     }
 
-    return matchValue(value, matcher);
+    return { lock: { version: lock.version, keys }, statuses: result.statuses };
+  }
+
+  matchKey(key: string, matcher: EnvSitterMatcher, options: MatchOptions & ProvenanceOption): Promise<EnvSitterKeyMatch>;
+  matchKey(key: string, matcher: EnvSitterMatcher, options?: MatchOptions & { withProvenance?: false }): Promise<boolean>;
+  async matchKey(key: string, matcher: EnvSitterMatcher, options: MatchOptions & { withProvenance?: boolean } = {}): Promise<boolean | EnvSitterKeyMatch> {
+    const snapshot = await this.source.load();
+    const match = await matchSnapshotKey(snapshot, key, matcher, options);
+    return options.withProvenance ? { key, match, ...provenanceFor(snapshot, key) } : match;
   }
 
   async matchKeyBulk(
@@ -128,9 +472,18 @@ export class EnvSitter {
   ): Promise<EnvSitterKeyMatch[]> {
     const snapshot = await this.source.load();
 
-    if (matcher.op === 'is_equal') {
+    if (isStoredFingerprintMatcher(matcher)) {
       const pepper = await resolvePepper(options.pepper);
-      const candidateFp = fingerprintValueHmacSha256(matcher.candidate, pepper.pepperBytes);
+      return keys.map((key) => {
+        const value = snapshot.values.get(key);
+        if (value === undefined) return { key, match: false };
+        return { key, match: matchesStoredFingerprint(value, matcher, pepper), ...provenanceFor(snapshot, key) };
+      });
+    }
+
+    if (isFingerprintMatcher(matcher)) {
+      const pepper = await resolvePepper(options.pepper);
+      const candidateFp = fingerprintValueHmacSha256(fingerprintCandidate(matcher), pepper.pepperBytes);
       const candidateBuf = Buffer.from(candidateFp.digestBytes);
 
       const results: EnvSitterKeyMatch[] = [];
@@ -141,10 +494,11 @@ export class EnvSitter {
           continue;
         }
 
-        const valueFp = fingerprintValueHmacSha256(value, pepper.pepperBytes);
-        const valueBuf = Buffer.from(valueFp.digestBytes);
-        const match = valueBuf.length === candidateBuf.length && timingSafeEqual(valueBuf, candidateBuf);
-        results.push({ key, match });
+        const match = fingerprintTargets(value, matcher).some((target) => {
+          const targetBuf = Buffer.from(fingerprintValueHmacSha256(target, pepper.pepperBytes).digestBytes);
+          return targetBuf.length === candidateBuf.length && timingSafeEqual(targetBuf, candidateBuf);
+        });
+        results.push({ key, match, ...provenanceFor(snapshot, key) });
       }
 
       return results;
@@ -153,7 +507,7 @@ export class EnvSitter {
     const results: EnvSitterKeyMatch[] = [];
     for (const key of keys) {
       if (matcher.op === 'exists') {
-        results.push({ key, match: snapshot.values.has(key) });
+        results.push({ key, match: snapshot.values.has(key), ...provenanceFor(snapshot, key) });
         continue;
       }
 
@@ -163,7 +517,7 @@ export class EnvSitter {
         continue;
       }
 
-      results.push({ key, match: matchValue(value, matcher) });
+      results.push({ key, match: matchValue(value, matcher), ...provenanceFor(snapshot, key) });
     }
 
     return results;
@@ -203,7 +557,7 @@ export class EnvSitter {
       const a = Buffer.from(candidateFp.digestBytes);
       const b = Buffer.from(valueFp.digestBytes);
       const match = a.length === b.length && timingSafeEqual(a, b);
-      results.push({ key, match });
+      results.push({ key, match, ...provenanceFor(snapshot, key) });
     }
 
     return results;
@@ -211,79 +565,287 @@ export class EnvSitter {
 
   async scan(options: ScanOptions = {}): Promise<ScanFinding[]> {
     const snapshot = await this.source.load();
-    const detectionsToRun = options.detect ?? ['jwt', 'url', 'base64'];
+    const detectors = options.detect ? options.detect.map(getDetector) : listDetectors();
+    const jwtOptions = options.jwt === true ? {} : options.jwt || undefined;
+    const claimPepper = jwtOptions?.hashClaims ? (await resolvePepper(options.pepper)).pepperBytes : undefined;
+    const pemOptions = options.pem === true ? {} : options.pem || undefined;
+    const certificateKeys = pemOptions ? [...snapshot.values].filter(([, v]) => v.includes('CERTIFICATE-----')).map(([k]) => k) : [];
 
     const findings: ScanFinding[] = [];
     for (const [key, value] of snapshot.values.entries()) {
       if (options.keysFilter && !options.keysFilter.test(key)) continue;
 
-      const detections: Detection[] = [];
-      for (const kind of detectionsToRun) {
-        if (kind === 'jwt' && looksLikeJwt(value)) detections.push('jwt');
-        else if (kind === 'url' && looksLikeUrl(value)) detections.push('url');
-        else if (kind === 'base64' && looksLikeBase64(value)) detections.push('base64');
+      const matches: ScanMatch[] = [];
+      for (const detector of detectors) {
+        const match = detector.detect(value, key);
+        if (match) matches.push({ detection: detector.id, ...match });
       }
 
-      if (detections.length > 0) findings.push({ key, detections });
+      const jwt = jwtOptions
+        ? inspectJwt(value, {
+            ...(jwtOptions.now ? { now: jwtOptions.now } : {}),
+            ...(jwtOptions.expiringWithinDays !== undefined ? { expiringWithinDays: jwtOptions.expiringWithinDays } : {}),
+            ...(claimPepper ? { claimPepper } : {})
+          })
+        : undefined;
+
+      const connection = options.connections ? parseConnectionString(value)?.analysis : undefined;
+      const certificate = pemOptions ? inspectCertificate(value, pemOptions) : undefined;
+      const keyInspection = pemOptions ? inspectPrivateKey(value) : undefined;
+      const privateKey = keyInspection
+        ? { ...keyInspection, matchesCertificateIn: certificateKeys.filter((k) => privateKeyMatchesCertificate(value, snapshot.values.get(k) ?? '')) }
+        : undefined;
+
+      if (matches.length > 0 || jwt || connection || certificate || privateKey) {
+        findings.push({
+          key,
+          detections: matches.map((m) => m.detection),
+          matches,
+          ...(jwt ? { jwt } : {}),
+          ...(connection ? { connection } : {}),
+          ...(certificate ? { certificate } : {}),
+          ...(privateKey ? { privateKey } : {})
+        });
+      }
     }
 
     return findings;
   }
+
+  /** Runs the JWT, connection-string and PEM inspectors on every value; keys no inspector understands are omitted. */
+  async inspect(options: InspectOptions = {}): Promise<InspectedKey[]> {
+    const timing = {
+      ...(options.now ? { now: options.now } : {}),
+      ...(options.expiringWithinDays !== undefined ? { expiringWithinDays: options.expiringWithinDays } : {})
+    };
+    const findings = await this.scan({
+      ...(options.keysFilter ? { keysFilter: options.keysFilter } : {}),
+      ...(options.pepper ? { pepper: options.pepper } : {}),
+      detect: [],
+      jwt: { ...timing, ...(options.hashClaims ? { hashClaims: true } : {}) },
+      connections: true,
+      pem: timing
+    });
+    return findings.map(({ detections: _detections, matches: _matches, ...inspected }) => inspected);
+  }
+
+  /**
+   * Compares this (old) source with `other` (new) by HMAC fingerprint. Reports line numbers on both sides
+   * and quote/export changes; values and fingerprints are not part of the result.
+   */
+  async diff(other: EnvSitter, options: MatchOptions = {}): Promise<EnvSitterDiff> {
+    const [before, after] = await Promise.all([this.source.load(), other.source.load()]);
+    const pepper = await resolvePepper(options.pepper);
+
+    const keys = new Set([...before.values.keys(), ...after.values.keys()]);
+    const entries: EnvSitterDiffEntry[] = [];
+
+    for (const key of [...keys].sort((a, b) => a.localeCompare(b))) {
+      const oldValue = before.values.get(key);
+      const newValue = after.values.get(key);
+      const beforeSide = oldValue !== undefined ? diffSide(before, key) : undefined;
+      const afterSide = newValue !== undefined ? diffSide(after, key) : undefined;
+
+      if (oldValue === undefined) {
+        entries.push({ key, status: 'added', ...(afterSide ? { after: afterSide } : {}) });
+        continue;
+      }
+      if (newValue === undefined) {
+        entries.push({ key, status: 'removed', ...(beforeSide ? { before: beforeSide } : {}) });
+        continue;
+      }
+
+      const a = Buffer.from(fingerprintValueHmacSha256(oldValue, pepper.pepperBytes).digestBytes);
+      const b = Buffer.from(fingerprintValueHmacSha256(newValue, pepper.pepperBytes).digestBytes);
+      const same = a.length === b.length && timingSafeEqual(a, b);
+
+      const quoteChanged = beforeSide?.quote !== undefined && afterSide?.quote !== undefined && beforeSide.quote !== afterSide.quote;
+      const exportChanged = beforeSide?.exported !== undefined && afterSide?.exported !== undefined && beforeSide.exported !== afterSide.exported;
+
+      entries.push({
+        key,
+        status: same ? 'unchanged' : 'changed',
+        ...(beforeSide ? { before: beforeSide } : {}),
+        ...(afterSide ? { after: afterSide } : {}),
+        ...(quoteChanged ? { quoteChanged } : {}),
+        ...(exportChanged ? { exportChanged } : {})
+      });
+    }
+
+    const count = (status: EnvSitterDiffStatus) => entries.filter((e) => e.status === status).length;
+    const added = count('added');
+    const removed = count('removed');
+    const changed = count('changed');
+
+    return { entries, added, removed, changed, unchanged: count('unchanged'), hasChanges: added + removed + changed > 0, hasRemovals: removed > 0 };
+  }
+
+  /** Searches a working tree for this source's values (and their common encodings); reports locations and key names only. */
+  async findLeaks(options: FindLeaksOptions = {}): Promise<FindLeaksResult> {
+    const snapshot = await this.source.load();
+    return findLeaksInWorkingTree(snapshot.values, options);
+  }
+
+  /** Checks the git staged index for env files, the pepper file and this source's values; backs `envsitter precommit`. */
+  async findStagedLeaks(options: FindStagedLeaksOptions = {}): Promise<FindStagedLeaksResult> {
+    const snapshot = await this.source.load();
+    return findStagedLeaks(snapshot.values, options);
+  }
+
+  /** A `Transform` that replaces this source's values (raw or encoded) with `[REDACTED:KEY]` in the bytes piped through it. */
+  async createRedactStream(options: RedactOptions = {}): Promise<RedactStream> {
+    const snapshot = await this.source.load();
+    return new RedactStream(snapshot.values, options);
+  }
+
+  /** Searches the local git history (all refs, offline) for committed env files and for this source's values. */
+  async findGitLeaks(options: FindGitLeaksOptions = {}): Promise<FindGitLeaksResult> {
+    const snapshot = await this.source.load();
+    return findLeaksInGitHistory(snapshot.values, options);
+  }
+
+  /** Per-key strength metrics computed in-process; secret-named keys with weak values are flagged. */
+  async audit(options: AuditOptions = {}): Promise<AuditResult> {
+    const snapshot = await this.source.load();
+    return auditValues(snapshot.values, options);
+  }
+
+  async checkSchema(schema: EnvSchema): Promise<EnvSchemaCheckResult> {
+    const snapshot = await this.source.load();
+    return checkEnvSchema(snapshot.values, schema);
+  }
 }
 
-function matchValue(value: string, matcher: Exclude<EnvSitterMatcher, { op: 'exists' } | { op: 'is_equal'; candidate: string }>): boolean {
-  if (matcher.op === 'is_empty') return value.length === 0;
+function diffSide(snapshot: Snapshot, key: string): EnvSitterDiffSide {
+  const provenance = snapshot.provenance?.get(key);
+  const syntax = snapshot.syntax?.get(key);
+  const line = provenance?.line ?? syntax?.line;
+  return {
+    ...(provenance ? { file: provenance.file } : {}),
+    ...(line !== undefined ? { line } : {}),
+    ...(syntax ? { quote: syntax.quote, exported: syntax.exported } : {})
+  };
+}
 
-  if (matcher.op === 'partial_match_prefix') return value.startsWith(matcher.prefix);
-  if (matcher.op === 'partial_match_suffix') return value.endsWith(matcher.suffix);
-  if (matcher.op === 'partial_match_regex') return matcher.regex.test(value);
+function groupLabel(index: number): string {
+  return index < 26 ? String.fromCharCode(65 + index) : `G${index + 1}`;
+}
 
-  if (matcher.op === 'is_number') return isNumberLike(value);
-  if (matcher.op === 'is_boolean') return isBooleanLike(value);
-  if (matcher.op === 'is_string') return !isNumberLike(value) && !isBooleanLike(value);
+function provenanceFor(snapshot: Snapshot, key: string): { provenance?: DotenvKeyProvenance } {
+  const provenance = snapshot.provenance?.get(key);
+  return provenance ? { provenance } : {};
+}
 
-  const neverMatcher: never = matcher;
-  throw new Error(`Unhandled matcher: ${JSON.stringify(neverMatcher)}`);
+async function matchSnapshotKey(snapshot: Snapshot, key: string, matcher: EnvSitterMatcher, options: MatchOptions): Promise<boolean> {
+  if (matcher.op === 'exists') return snapshot.values.has(key);
+
+  const value = snapshot.values.get(key);
+  if (value === undefined) return false;
+
+  if (isStoredFingerprintMatcher(matcher)) return matchesStoredFingerprint(value, matcher, await resolvePepper(options.pepper));
+
+  if (isFingerprintMatcher(matcher)) {
+    const pepper = await resolvePepper(options.pepper);
+    const candidateBuf = Buffer.from(fingerprintValueHmacSha256(fingerprintCandidate(matcher), pepper.pepperBytes).digestBytes);
+    return fingerprintTargets(value, matcher).some((target) => {
+      const targetBuf = Buffer.from(fingerprintValueHmacSha256(target, pepper.pepperBytes).digestBytes);
+      return targetBuf.length === candidateBuf.length && timingSafeEqual(targetBuf, candidateBuf);
+    });
+  }
+
+  return matchValue(value, matcher);
 }
 
-function isNumberLike(value: string): boolean {
-  const trimmed = value.trim();
-  if (trimmed.length === 0) return false;
+function isFingerprintMatcher(matcher: EnvSitterMatcher): matcher is FingerprintMatcher {
+  return (matcher.op === 'is_equal' || matcher.op === 'host_is_equal' || matcher.op === 'database_is_equal') && 'candidate' in matcher;
+}
 
-  if (!/^[+-]?(?:\d+(?:\.\d+)?|\.\d+)$/.test(trimmed)) return false;
-  const n = Number(trimmed);
-  return Number.isFinite(n);
+function isStoredFingerprintMatcher(matcher: EnvSitterMatcher): matcher is StoredFingerprintMatcher {
+  return (matcher.op === 'is_equal' || matcher.op === 'fingerprint_is_equal') && 'fingerprint' in matcher;
 }
 
-function isBooleanLike(value: string): boolean {
-  const trimmed = value.trim().toLowerCase();
-  return trimmed === 'true' || trimmed === 'false';
+/** Host names are case-insensitive, so both sides of `host_is_equal` are lowercased before hashing. */
+function fingerprintCandidate(matcher: FingerprintMatcher): string {
+  return matcher.op === 'host_is_equal' ? matcher.candidate.toLowerCase() : matcher.candidate;
 }
 
-function looksLikeJwt(value: string): boolean {
-  const parts = value.split('.');
-  if (parts.length !== 3) return false;
-  return parts.every((p) => /^[A-Za-z0-9_-]+$/.test(p) && p.length > 0);
+/** The strings a fingerprint matcher compares against: the value itself, or its connection-string hosts/database. */
+function fingerprintTargets(value: string, matcher: FingerprintMatcher): string[] {
+  if (matcher.op === 'is_equal') return [value];
+
+  const parts = parseConnectionString(value);
+  if (!parts) return [];
+  if (matcher.op === 'host_is_equal') return parts.hosts.map((h) => h.toLowerCase());
+  return parts.database !== undefined ? [parts.database] : [];
 }
 
-function looksLikeUrl(value: string): boolean {
-  try {
-    const url = new URL(value);
-    return url.protocol === 'http:' || url.protocol === 'https:';
-  } catch {
-    return false;
-  }
+function fingerprintRecord(snapshot: Snapshot, key: string, value: string, pepper: PepperResult, spec: FingerprintSpec): EnvSitterFingerprint {
+  const fp = fingerprintValue(value, pepper.pepperBytes, spec);
+  return {
+    key,
+    algorithm: fp.algorithm,
+    ...(fp.params ? { params: fp.params } : {}),
+    fingerprint: base64UrlEncode(fp.digestBytes),
+    length: value.length,
+    pepperId: pepper.pepperId,
+    pepperSource: pepper.source,
+    ...(pepper.pepperFilePath ? { pepperFilePath: pepper.pepperFilePath } : {}),
+    ...provenanceFor(snapshot, key)
+  };
 }
 
-function looksLikeBase64(value: string): boolean {
-  const trimmed = value.trim();
-  if (!trimmed) return false;
-  if (!/^[A-Za-z0-9+/=]+$/.test(trimmed)) return false;
-  if (trimmed.length % 4 !== 0) return false;
-  try {
-    const decoded = Buffer.from(trimmed, 'base64');
-    return decoded.length > 0;
-  } catch {
-    return false;
-  }
+/** The algorithm chosen by `options` for `key`, or `undefined` when nothing was configured. */
+function selectedSpec(key: string, options: MatchOptions): FingerprintSpec | undefined {
+  return options.algorithmRules?.find((rule) => rule.keys.test(key))?.algorithm ?? options.algorithm;
+}
+
+/** Fingerprints from before algorithms were recorded are `hmac-sha256`. */
+function storedSpec(stored: { algorithm?: FingerprintAlgorithm; params?: ScryptParams }): FingerprintSpec {
+  return { algorithm: stored.algorithm ?? 'hmac-sha256', ...(stored.params ? { params: stored.params } : {}) };
+}
+
+function sameSpec(a: FingerprintSpec, b: FingerprintSpec): boolean {
+  if (a.algorithm !== b.algorithm) return false;
+  if (a.algorithm !== 'scrypt') return true;
+  const pa = a.params ?? DEFAULT_SCRYPT_PARAMS;
+  const pb = b.params ?? DEFAULT_SCRYPT_PARAMS;
+  return pa.N === pb.N && pa.r === pb.r && pa.p === pb.p;
+}
+
+/**
+ * Whether `value` hashes to a stored fingerprint, using the algorithm recorded with it. A `pepperId` selects that
+ * pepper (active or retired within its grace window); without one, every accepted pepper is tried. Unknown or
+ * expired pepper IDs never match.
+ */
+function matchesStoredFingerprint(
+  value: string,
+  stored: { fingerprint: string; pepperId?: string; algorithm?: FingerprintAlgorithm; params?: ScryptParams },
+  pepper: PepperResult
+): boolean {
+  const spec = storedSpec(stored);
+  const expected = Buffer.from(base64DecodeToBytes(stored.fingerprint.replace(/-/g, '+').replace(/_/g, '/')));
+  return acceptedPeppers(pepper)
+    .filter((p) => stored.pepperId === undefined || p.pepperId === stored.pepperId)
+    .some((p) => {
+      const actual = Buffer.from(fingerprintValue(value, p.pepperBytes, spec).digestBytes);
+      return actual.length === expected.length && timingSafeEqual(actual, expected);
+    });
+}
+
+function matchValue(value: string, matcher: Exclude<EnvSitterMatcher, { op: 'exists' } | StoredFingerprintMatcher | FingerprintMatcher>): boolean {
+  if (matcher.op === 'is_empty') return value.length === 0;
+
+  if (matcher.op === 'partial_match_prefix') return value.startsWith(matcher.prefix);
+  if (matcher.op === 'partial_match_suffix') return value.endsWith(matcher.suffix);
+  if (matcher.op === 'partial_match_regex') return matcher.regex.test(value);
+
+  if (matcher.op === 'is_number') return isNumberLike(value);
+  if (matcher.op === 'is_boolean') return isBooleanLike(value);
+  if (matcher.op === 'is_string') return !isNumberLike(value) && !isBooleanLike(value);
+
+  if (matcher.op === 'jwt_expired') return isJwtExpired(value);
+  if (matcher.op === 'jwt_expires_within') return jwtExpiresWithin(value, matcher.days);
+
+  const neverMatcher: never = matcher;
+  throw new Error(`Unhandled matcher: ${JSON.stringify(neverMatcher)}`);
 }
@@ -1,3 +1,4 @@
+import { timingSafeEqual } from 'node:crypto';
 import { readFile } from 'node:fs/promises';
 
 import {
@@ -10,9 +11,20 @@ import {
   unsetDotenvKey,
   validateDotenv,
   type KeyMutationAction,
+  type ValidateDotenvOptions,
   type KeyMutationPlanItem
 } from './dotenv/edit.js';
+import type { DotenvDialect } from './dotenv/dialect.js';
+import { diffDotenvExample, syncDotenvExample, type ExampleKeyLocation, type ExampleSyncPlanItem } from './dotenv/example.js';
 import { readTextFileOrEmpty, writeTextFileAtomic } from './dotenv/io.js';
+import { lintDotenv, type LintFinding, type LintRuleId, type LintSeverity } from './dotenv/lint.js';
+import { parseDotenv } from './dotenv/parse.js';
+import { fingerprintValueHmacSha256 } from './fingerprint.js';
+import { resolvePepper, type PepperOptions } from './pepper.js';
+
+function dialectOption(dialect: DotenvDialect | undefined): { dialect?: DotenvDialect } {
+  return dialect ? { dialect } : {};
+}
 
 export type DotenvIssue = {
   line: number;
@@ -60,6 +72,7 @@ export async function copyEnvFileKeys(options: {
   rename?: string;
   onConflict?: CopyConflictPolicy;
   write?: boolean;
+  dialect?: DotenvDialect;
 }): Promise<CopyEnvFilesResult> {
   const sourceContents = await readFile(options.from, 'utf8');
   const targetContents = await readTextFileOrEmpty(options.to);
@@ -71,7 +84,8 @@ export async function copyEnvFileKeys(options: {
     ...(options.include ? { include: options.include } : {}),
     ...(options.exclude ? { exclude: options.exclude } : {}),
     ...(options.rename ? { rename: options.rename } : {}),
-    onConflict: options.onConflict ?? 'error'
+    onConflict: options.onConflict ?? 'error',
+    ...dialectOption(options.dialect)
   });
 
   const conflicts = result.plan.some((p) => p.action === 'conflict');
@@ -108,12 +122,13 @@ export async function formatEnvFile(options: {
   mode?: FormatMode;
   sort?: FormatSort;
   write?: boolean;
+  dialect?: DotenvDialect;
 }): Promise<FormatEnvFileResult> {
   const mode = options.mode ?? 'sections';
   const sort = options.sort ?? 'alpha';
   const contents = await readFile(options.file, 'utf8');
 
-  const result = formatDotenv({ contents, mode, sort });
+  const result = formatDotenv({ contents, mode, sort, ...dialectOption(options.dialect) });
   const willWrite = options.write === true;
 
   if (willWrite && result.hasChanges) {
@@ -147,13 +162,15 @@ export async function annotateEnvFile(options: {
   comment: string;
   line?: number;
   write?: boolean;
+  dialect?: DotenvDialect;
 }): Promise<AnnotateEnvFileResult> {
   const contents = await readFile(options.file, 'utf8');
   const result = annotateDotenvKey({
     contents,
     key: options.key,
     comment: options.comment,
-    ...(options.line !== undefined ? { line: options.line } : {})
+    ...(options.line !== undefined ? { line: options.line } : {}),
+    ...dialectOption(options.dialect)
   });
 
   const willWrite = options.write === true;
@@ -178,9 +195,11 @@ export type ValidateEnvFileResult = {
   issues: DotenvIssue[];
 };
 
-export async function validateEnvFile(file: string): Promise<ValidateEnvFileResult> {
+export type { ValidateDotenvOptions };
+
+export async function validateEnvFile(file: string, options: ValidateDotenvOptions = {}): Promise<ValidateEnvFileResult> {
   const contents = await readFile(file, 'utf8');
-  const result = validateDotenv(contents);
+  const result = validateDotenv(contents, options);
   return { file, ok: result.ok, issues: result.issues };
 }
 
@@ -201,9 +220,10 @@ export async function addEnvFileKey(options: {
   key: string;
   value: string;
   write?: boolean;
+  dialect?: DotenvDialect;
 }): Promise<AddEnvFileKeyResult> {
   const contents = await readTextFileOrEmpty(options.file);
-  const result = addDotenvKey({ contents, key: options.key, value: options.value });
+  const result = addDotenvKey({ contents, key: options.key, value: options.value, ...dialectOption(options.dialect) });
 
   const willWrite = options.write === true;
   if (willWrite && result.hasChanges) {
@@ -236,9 +256,10 @@ export async function setEnvFileKey(options: {
   key: string;
   value: string;
   write?: boolean;
+  dialect?: DotenvDialect;
 }): Promise<SetEnvFileKeyResult> {
   const contents = await readTextFileOrEmpty(options.file);
-  const result = setDotenvKey({ contents, key: options.key, value: options.value });
+  const result = setDotenvKey({ contents, key: options.key, value: options.value, ...dialectOption(options.dialect) });
 
   const willWrite = options.write === true;
   if (willWrite && result.hasChanges) {
@@ -270,9 +291,10 @@ export async function unsetEnvFileKey(options: {
   file: string;
   key: string;
   write?: boolean;
+  dialect?: DotenvDialect;
 }): Promise<UnsetEnvFileKeyResult> {
   const contents = await readFile(options.file, 'utf8');
-  const result = unsetDotenvKey({ contents, key: options.key });
+  const result = unsetDotenvKey({ contents, key: options.key, ...dialectOption(options.dialect) });
 
   const willWrite = options.write === true;
   if (willWrite && result.hasChanges) {
@@ -304,9 +326,10 @@ export async function deleteEnvFileKeys(options: {
   file: string;
   keys: readonly string[];
   write?: boolean;
+  dialect?: DotenvDialect;
 }): Promise<DeleteEnvFileKeysResult> {
   const contents = await readFile(options.file, 'utf8');
-  const result = deleteDotenvKeys({ contents, keys: options.keys });
+  const result = deleteDotenvKeys({ contents, keys: options.keys, ...dialectOption(options.dialect) });
 
   const willWrite = options.write === true;
   if (willWrite && result.hasChanges) {
@@ -323,3 +346,154 @@ export async function deleteEnvFileKeys(options: {
     plan: result.plan
   };
 }
+
+export type { LintFinding, LintRuleId, LintSeverity };
+
+export type LintEnvFileResult = {
+  file: string;
+  ok: boolean;
+  fix: boolean;
+  fixed: number;
+  wrote: boolean;
+  findings: LintFinding[];
+};
+
+/** `fix: true` rewrites the file in place with every fixable finding applied. */
+export async function lintEnvFile(options: {
+  file: string;
+  rules?: Partial<Record<LintRuleId, LintSeverity>>;
+  fix?: boolean;
+  dialect?: DotenvDialect;
+}): Promise<LintEnvFileResult> {
+  const contents = await readFile(options.file, 'utf8');
+  const fix = options.fix === true;
+  const result = lintDotenv({
+    contents,
+    fix,
+    ...(options.rules ? { rules: options.rules } : {}),
+    ...dialectOption(options.dialect)
+  });
+
+  if (fix && result.hasChanges) {
+    await writeTextFileAtomic(options.file, result.output);
+  }
+
+  return {
+    file: options.file,
+    ok: !result.findings.some((f) => f.severity === 'error'),
+    fix,
+    fixed: result.fixed,
+    wrote: fix && result.hasChanges,
+    findings: result.findings
+  };
+}
+
+export type { ExampleKeyLocation, ExampleSyncPlanItem };
+
+async function exampleKeysMatchingReal(
+  realContents: string,
+  exampleContents: string,
+  pepper: PepperOptions | undefined,
+  dialect: DotenvDialect | undefined
+): Promise<ExampleKeyLocation[]> {
+  const real = parseDotenv(realContents, dialectOption(dialect));
+  const example = parseDotenv(exampleContents, dialectOption(dialect));
+
+  const candidates = [...example.values].filter(([key, value]) => value.length > 0 && real.values.has(key));
+  if (candidates.length === 0) return [];
+
+  const { pepperBytes } = await resolvePepper(pepper);
+  const out: ExampleKeyLocation[] = [];
+  for (const [key, exampleValue] of candidates) {
+    const a = Buffer.from(fingerprintValueHmacSha256(exampleValue, pepperBytes).digestBytes);
+    const b = Buffer.from(fingerprintValueHmacSha256(real.values.get(key) ?? '', pepperBytes).digestBytes);
+    if (a.length === b.length && timingSafeEqual(a, b)) out.push({ key, line: example.lines.get(key)?.at(-1) ?? 0 });
+  }
+  return out;
+}
+
+export type DiffEnvExampleFileResult = {
+  file: string;
+  example: string;
+  ok: boolean;
+  missing: ExampleKeyLocation[];
+  extra: ExampleKeyLocation[];
+  /** Example keys whose non-empty value equals the real value (compared by HMAC fingerprint). */
+  sameAsReal: ExampleKeyLocation[];
+  issues: DotenvIssue[];
+};
+
+export async function diffEnvExampleFile(options: {
+  file: string;
+  example: string;
+  pepper?: PepperOptions;
+  dialect?: DotenvDialect;
+}): Promise<DiffEnvExampleFileResult> {
+  const realContents = await readFile(options.file, 'utf8');
+  const exampleContents = await readTextFileOrEmpty(options.example);
+
+  const diff = diffDotenvExample({ realContents, exampleContents, ...dialectOption(options.dialect) });
+  const sameAsReal = await exampleKeysMatchingReal(realContents, exampleContents, options.pepper, options.dialect);
+
+  return {
+    file: options.file,
+    example: options.example,
+    ok: diff.missing.length === 0 && diff.extra.length === 0 && sameAsReal.length === 0,
+    missing: diff.missing,
+    extra: diff.extra,
+    sameAsReal,
+    issues: diff.issues
+  };
+}
+
+export type SyncEnvExampleFileResult = {
+  file: string;
+  example: string;
+  willWrite: boolean;
+  wrote: boolean;
+  hasChanges: boolean;
+  issues: DotenvIssue[];
+  plan: ExampleSyncPlanItem[];
+  extra: ExampleKeyLocation[];
+  sameAsReal: ExampleKeyLocation[];
+};
+
+/** Adds missing keys to the example with placeholders (`placeholder` overrides the shape-based default). Extra keys are reported, not removed. */
+export async function syncEnvExampleFile(options: {
+  file: string;
+  example: string;
+  placeholder?: string;
+  write?: boolean;
+  pepper?: PepperOptions;
+  dialect?: DotenvDialect;
+}): Promise<SyncEnvExampleFileResult> {
+  const realContents = await readFile(options.file, 'utf8');
+  const exampleContents = await readTextFileOrEmpty(options.example);
+
+  const result = syncDotenvExample({
+    realContents,
+    exampleContents,
+    ...(options.placeholder !== undefined ? { placeholder: options.placeholder } : {}),
+    ...dialectOption(options.dialect)
+  });
+
+  const willWrite = options.write === true;
+  if (willWrite && result.hasChanges) {
+    await writeTextFileAtomic(options.example, result.output);
+  }
+
+  const diff = diffDotenvExample({ realContents, exampleContents: result.output, ...dialectOption(options.dialect) });
+  const sameAsReal = await exampleKeysMatchingReal(realContents, exampleContents, options.pepper, options.dialect);
+
+  return {
+    file: options.file,
+    example: options.example,
+    willWrite,
+    wrote: willWrite && result.hasChanges,
+    hasChanges: result.hasChanges,
+    issues: result.issues,
+    plan: result.plan,
+    extra: diff.extra,
+    sameAsReal
+  };
+}
@@ -1,14 +1,84 @@
-import { createHmac } from 'node:crypto';
+import { createHmac, scryptSync } from 'node:crypto';
+import { blake2b, BLAKE2B_MAX_KEY_BYTES } from './blake2b.js';
 
-export type FingerprintAlgorithm = 'hmac-sha256';
+export type FingerprintAlgorithm = 'hmac-sha256' | 'hmac-sha512' | 'blake2b' | 'scrypt';
+
+export const FINGERPRINT_ALGORITHMS: readonly FingerprintAlgorithm[] = ['hmac-sha256', 'hmac-sha512', 'blake2b', 'scrypt'];
+
+export const DEFAULT_FINGERPRINT_ALGORITHM: FingerprintAlgorithm = 'hmac-sha256';
+
+/** scrypt cost parameters; they are stored with every scrypt fingerprint so it can be recomputed later. */
+export type ScryptParams = {
+  N: number;
+  r: number;
+  p: number;
+};
+
+/** About 16 MiB and tens of milliseconds per value: cheap for one check, expensive for a dictionary. */
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 16384, r: 8, p: 1 };
+
+const MAX_SCRYPT_MEMORY_BYTES = 256 * 1024 * 1024;
+
+/** An algorithm and its parameters; only `scrypt` takes any (default `DEFAULT_SCRYPT_PARAMS`). */
+export type FingerprintSpec = {
+  algorithm: FingerprintAlgorithm;
+  params?: ScryptParams;
+};
 
 export type FingerprintResult = {
   algorithm: FingerprintAlgorithm;
+  /** Set for `scrypt`. */
+  params?: ScryptParams;
   digestBytes: Uint8Array;
 };
 
+export function isFingerprintAlgorithm(value: unknown): value is FingerprintAlgorithm {
+  return FINGERPRINT_ALGORITHMS.includes(value as FingerprintAlgorithm);
+}
+
+/**
+ * Checks scrypt parameters read from a stored fingerprint or lock file. Memory (128 * N * r bytes) is capped at
+ * 256 MiB so a crafted file cannot make verification exhaust the machine.
+ */
+export function parseScryptParams(raw: unknown): ScryptParams {
+  const params = (typeof raw === 'object' && raw !== null ? raw : {}) as Partial<Record<keyof ScryptParams, unknown>>;
+  const { N, r, p } = params;
+  if (typeof N !== 'number' || !Number.isInteger(N) || N < 2 || (N & (N - 1)) !== 0) throw new Error('scrypt N must be a power of two of at least 2');
+  if (typeof r !== 'number' || !Number.isInteger(r) || r < 1) throw new Error('scrypt r must be a positive integer');
+  if (typeof p !== 'number' || !Number.isInteger(p) || p < 1 || p > 16) throw new Error('scrypt p must be an integer from 1 to 16');
+  if (128 * N * r > MAX_SCRYPT_MEMORY_BYTES) throw new Error('scrypt parameters need more than 256 MiB of memory');
+  return { N, r, p };
+}
+
 export function fingerprintValueHmacSha256(value: string, pepperBytes: Uint8Array): FingerprintResult {
   const hmac = createHmac('sha256', Buffer.from(pepperBytes));
   hmac.update(value, 'utf8');
   return { algorithm: 'hmac-sha256', digestBytes: new Uint8Array(hmac.digest()) };
 }
+
+export function fingerprintValueHmacSha512(value: string, pepperBytes: Uint8Array): FingerprintResult {
+  const hmac = createHmac('sha512', Buffer.from(pepperBytes));
+  hmac.update(value, 'utf8');
+  return { algorithm: 'hmac-sha512', digestBytes: new Uint8Array(hmac.digest()) };
+}
+
+/** Keyed BLAKE2b with a 32-byte digest. Peppers over 64 bytes (possible from the environment) are hashed down to a key first. */
+export function fingerprintValueBlake2b(value: string, pepperBytes: Uint8Array): FingerprintResult {
+  const key = pepperBytes.length > BLAKE2B_MAX_KEY_BYTES ? blake2b(pepperBytes) : pepperBytes;
+  return { algorithm: 'blake2b', digestBytes: blake2b(new TextEncoder().encode(value), key, 32) };
+}
+
+/** scrypt with the pepper as salt: for low-entropy values (PINs, passwords) where a fast hash invites guessing. */
+export function fingerprintValueScrypt(value: string, pepperBytes: Uint8Array, params: ScryptParams = DEFAULT_SCRYPT_PARAMS): FingerprintResult {
+  const checked = parseScryptParams(params);
+  const digest = scryptSync(value, Buffer.from(pepperBytes), 32, { ...checked, maxmem: 2 * MAX_SCRYPT_MEMORY_BYTES });
+  return { algorithm: 'scrypt', params: checked, digestBytes: new Uint8Array(digest) };
+}
+
+export function fingerprintValue(value: string, pepperBytes: Uint8Array, spec: FingerprintSpec = { algorithm: DEFAULT_FINGERPRINT_ALGORITHM }): FingerprintResult {
+  if (spec.algorithm === 'hmac-sha256') return fingerprintValueHmacSha256(value, pepperBytes);
+  if (spec.algorithm === 'hmac-sha512') return fingerprintValueHmacSha512(value, pepperBytes);
+  if (spec.algorithm === 'blake2b') return fingerprintValueBlake2b(value, pepperBytes);
+  if (spec.algorithm === 'scrypt') return fingerprintValueScrypt(value, pepperBytes, spec.params);
+  throw new Error(`Unsupported fingerprint algorithm: ${String(spec.algorithm)}`);
+}
@@ -1,36 +1,259 @@
 export {
   EnvSitter,
   type Detection,
+  type EnvSitterComparison,
+  type EnvSitterComparisonCell,
+  type EnvSitterComparisonRow,
+  type EnvSitterDiff,
+  type EnvSitterDiffEntry,
+  type EnvSitterDiffSide,
+  type EnvSitterDiffStatus,
   type EnvSitterFingerprint,
+  type EnvSitterKeyInfo,
   type EnvSitterKeyMatch,
   type EnvSitterMatcher,
+  type EnvSitterNamedSource,
+  type EnvLockOptions,
+  type FingerprintAlgorithmRule,
+  type InspectedKey,
+  type InspectOptions,
   type ListKeysOptions,
   type MatchOptions,
+  type ProvenanceOption,
+  type RefingerprintResult,
+  type RefingerprintStatus,
   type ScanFinding,
-  type ScanOptions
+  type ScanJwtOptions,
+  type ScanMatch,
+  type ScanOptions,
+  type ScanPemOptions,
+  type ScanPrivateKey,
+  type StoredFingerprint
 } from './envsitter.js';
 
-export { type PepperOptions, resolvePepper } from './pepper.js';
+export {
+  acceptedPeppers,
+  checkPepperStrength,
+  decodePepper,
+  DEFAULT_PEPPER_GRACE_DAYS,
+  importPepper,
+  MIN_PEPPER_BYTES,
+  projectPepperFilePath,
+  type ImportPepperOptions,
+  type ImportPepperResult,
+  type PepperEncoding,
+  type PepperOptions,
+  type PepperProvider,
+  type PepperResult,
+  resolvePepper,
+  type RetiredPepper,
+  rotatePepper,
+  type RotatePepperOptions,
+  type RotatePepperResult
+} from './pepper.js';
+export {
+  DEFAULT_PEPPER_EXPORT_SCRYPT_PARAMS,
+  exportPepper,
+  generatePepperIdentity,
+  MIN_PASSPHRASE_LENGTH,
+  parsePepperExport,
+  passphraseWeaknesses,
+  PEPPER_EXPORT_FORMAT,
+  PEPPER_EXPORT_VERSION,
+  unwrapPepperExport,
+  type PepperExport,
+  type PepperExportWrap,
+  type PepperUnwrapOptions,
+  type PepperWrapOptions
+} from './pepper-export.js';
+export {
+  DEFAULT_FINGERPRINT_ALGORITHM,
+  DEFAULT_SCRYPT_PARAMS,
+  FINGERPRINT_ALGORITHMS,
+  fingerprintValue,
+  isFingerprintAlgorithm,
+  parseScryptParams,
+  type FingerprintAlgorithm,
+  type FingerprintResult,
+  type FingerprintSpec,
+  type ScryptParams
+} from './fingerprint.js';
+export {
+  DEFAULT_LOCK_FILE,
+  isEnvLock,
+  parseEnvLock,
+  readEnvLockFile,
+  stringifyEnvLock,
+  type EnvLock,
+  type EnvLockKey,
+  type EnvLockKeyResult,
+  type EnvLockStatus,
+  type EnvLockVerifyResult
+} from './lock.js';
+export {
+  parsePepperKeyring,
+  PEPPER_KEYRING_VERSION,
+  pepperIdFor,
+  readPepperKeyring,
+  writePepperKeyring,
+  type PepperKeyring,
+  type PepperKeyringEntry
+} from './keyring.js';
+
+export {
+  BUILTIN_DETECTORS,
+  getDetector,
+  listDetectors,
+  registerDetector,
+  unregisterDetector,
+  type BuiltinDetection,
+  type DetectionConfidence,
+  type Detector,
+  type DetectorMatch
+} from './detectors.js';
+
+export { type ValueShape } from './value-shapes.js';
+
+export {
+  expandDotenvValues,
+  type DotenvExpandOptions,
+  type DotenvExpandResult,
+  type DotenvExpansionIssue,
+  type DotenvExpansionIssueKind
+} from './dotenv/expand.js';
+
+export { type DotenvFileSourceOptions } from './sources/dotenvFile.js';
+export { type ExternalCommandSourceOptions } from './sources/externalCommand.js';
+
+export {
+  dotenvLayerFilePaths,
+  type DotenvKeyProvenance,
+  type DotenvLayerLocation,
+  type DotenvLayersSourceOptions
+} from './sources/dotenvLayers.js';
 
 export {
   addEnvFileKey,
   annotateEnvFile,
   copyEnvFileKeys,
   deleteEnvFileKeys,
+  diffEnvExampleFile,
   formatEnvFile,
+  lintEnvFile,
   setEnvFileKey,
+  syncEnvExampleFile,
   unsetEnvFileKey,
   validateEnvFile,
   type AddEnvFileKeyResult,
   type AnnotateEnvFileResult,
   type CopyEnvFilesResult,
   type DeleteEnvFileKeysResult,
+  type DiffEnvExampleFileResult,
+  type ExampleKeyLocation,
+  type ExampleSyncPlanItem,
   type FormatEnvFileResult,
   type KeyMutationAction,
   type KeyMutationPlanItem,
+  type LintEnvFileResult,
+  type LintFinding,
+  type LintRuleId,
+  type LintSeverity,
   type SetEnvFileKeyResult,
+  type SyncEnvExampleFileResult,
   type UnsetEnvFileKeyResult,
+  type ValidateDotenvOptions,
   type ValidateEnvFileResult
 } from './file-ops.js';
 
-export { isExampleEnvFile } from './dotenv/utils.js';
+export { isEnvFile, isExampleEnvFile } from './dotenv/utils.js';
+
+export { DOTENV_DIALECTS, type DotenvDialect } from './dotenv/dialect.js';
+
+export { LINT_RULES } from './dotenv/lint.js';
+
+export {
+  checkEnvSchema,
+  ENV_SCHEMA_TYPES,
+  inferEnvSchema,
+  parseEnvSchema,
+  readEnvSchemaFile,
+  stringifyEnvSchema,
+  type EnvSchema,
+  type EnvSchemaCheckResult,
+  type EnvSchemaKey,
+  type EnvSchemaKeyResult,
+  type EnvSchemaReason,
+  type EnvSchemaType,
+  type InferEnvSchemaOptions,
+  type InferEnvSchemaResult
+} from './schema.js';
+
+export { generateEnvAccessor, generateProcessEnvDeclaration, schemaFromKeys } from './typegen.js';
+
+export {
+  auditValue,
+  auditValues,
+  estimateEntropyBits,
+  isSecretKeyName,
+  lengthBucket,
+  type AuditCharClass,
+  type AuditKeyResult,
+  type AuditLengthBucket,
+  type AuditOptions,
+  type AuditResult,
+  type AuditWeakness
+} from './audit.js';
+
+export {
+  DEFAULT_JWT_EXPIRING_WITHIN_DAYS,
+  inspectJwt,
+  isJwtExpired,
+  jwtExpiresWithin,
+  type InspectJwtOptions,
+  type JwtFinding,
+  type JwtInspection
+} from './jwt.js';
+
+export {
+  analyzeConnectionString,
+  looksLikeConnectionString,
+  type ConnectionHostClass,
+  type ConnectionStringAnalysis,
+  type ConnectionStringKind,
+  type ConnectionTls
+} from './connection-string.js';
+
+export {
+  DEFAULT_CERT_EXPIRING_WITHIN_DAYS,
+  inspectCertificate,
+  inspectPrivateKey,
+  privateKeyMatchesCertificate,
+  type CertificateFinding,
+  type CertificateInspection,
+  type InspectPemOptions,
+  type PemKeyInfo,
+  type PrivateKeyFinding,
+  type PrivateKeyFormat,
+  type PrivateKeyInspection
+} from './pem.js';
+
+export { findLeaksInWorkingTree, type FindLeaksOptions, type FindLeaksResult, type LeakFinding } from './leaks/worktree.js';
+export {
+  findLeaksInGitHistory,
+  type FindGitLeaksOptions,
+  type FindGitLeaksResult,
+  type GitEnvFileCommit,
+  type GitLeakFinding
+} from './leaks/git.js';
+export {
+  DEFAULT_PRECOMMIT_ALLOWLIST_FILE,
+  findStagedLeaks,
+  parsePrecommitAllowlist,
+  type FindStagedLeaksOptions,
+  type FindStagedLeaksResult,
+  type PrecommitAllowEntry,
+  type StagedBlockedFile,
+  type StagedLeakFinding
+} from './leaks/staged.js';
+export { RedactStream, redactionMarker, type RedactOptions } from './leaks/redact.js';
+export { buildNeedles, DEFAULT_LEAK_MIN_LENGTH, NeedleScanner, type LeakEncoding, type Needle, type NeedleHit } from './leaks/needles.js';
@@ -0,0 +1,121 @@
+import { base64UrlEncode } from './encoding.js';
+import { fingerprintValueHmacSha256 } from './fingerprint.js';
+
+export type JwtFinding = 'expired' | 'expiring_soon' | 'alg_none';
+
+export type JwtInspection = {
+  alg?: string;
+  typ?: string;
+  kid?: string;
+  /** Issuer, or its HMAC fingerprint when `claimPepper` is given. */
+  iss?: string;
+  /** Audience(s), or their HMAC fingerprints when `claimPepper` is given. */
+  aud?: string | string[];
+  /** `iat` / `nbf` / `exp` as ISO-8601 timestamps. */
+  issuedAt?: string;
+  notBefore?: string;
+  expiresAt?: string;
+  findings: JwtFinding[];
+};
+
+export type InspectJwtOptions = {
+  /** Reference time for expiry checks (default: now). */
+  now?: Date;
+  /** Report `expiring_soon` when `exp` falls within this many days (default 30). */
+  expiringWithinDays?: number;
+  /** When set, `iss` and `aud` are replaced by their HMAC-SHA256 fingerprints. */
+  claimPepper?: Uint8Array;
+};
+
+export const DEFAULT_JWT_EXPIRING_WITHIN_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function decodeSegment(segment: string): Record<string, unknown> | undefined {
+  if (!/^[A-Za-z0-9_-]+$/.test(segment)) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function stringClaim(obj: Record<string, unknown>, name: string): string | undefined {
+  const value = obj[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function numericDate(obj: Record<string, unknown>, name: string): Date | undefined {
+  const value = obj[name];
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  const date = new Date(value * 1000);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Decodes a JWT header and payload in-process and returns non-secret metadata only. The signature is neither
+ * verified nor returned, and no other claims are copied. Returns `undefined` when the value is not a JWT
+ * (three base64url segments whose first two decode to JSON objects; the signature may be empty for `alg: none`).
+ */
+export function inspectJwt(value: string, options: InspectJwtOptions = {}): JwtInspection | undefined {
+  const parts = value.trim().split('.');
+  if (parts.length !== 3) return undefined;
+  const [headerPart = '', payloadPart = '', signaturePart = ''] = parts;
+  if (signaturePart.length > 0 && !/^[A-Za-z0-9_-]+$/.test(signaturePart)) return undefined;
+
+  const header = decodeSegment(headerPart);
+  const payload = decodeSegment(payloadPart);
+  if (!header || !payload) return undefined;
+
+  const hash = (claim: string): string =>
+    options.claimPepper ? base64UrlEncode(fingerprintValueHmacSha256(claim, options.claimPepper).digestBytes) : claim;
+
+  const alg = stringClaim(header, 'alg');
+  const typ = stringClaim(header, 'typ');
+  const kid = stringClaim(header, 'kid');
+  const iss = stringClaim(payload, 'iss');
+  const audRaw = payload['aud'];
+  const aud =
+    typeof audRaw === 'string'
+      ? hash(audRaw)
+      : Array.isArray(audRaw)
+        ? audRaw.filter((a): a is string => typeof a === 'string').map(hash)
+        : undefined;
+
+  const issuedAt = numericDate(payload, 'iat');
+  const notBefore = numericDate(payload, 'nbf');
+  const expiresAt = numericDate(payload, 'exp');
+
+  const now = (options.now ?? new Date()).getTime();
+  const withinMs = (options.expiringWithinDays ?? DEFAULT_JWT_EXPIRING_WITHIN_DAYS) * DAY_MS;
+
+  const findings: JwtFinding[] = [];
+  if (expiresAt && expiresAt.getTime() <= now) findings.push('expired');
+  else if (expiresAt && expiresAt.getTime() - now <= withinMs) findings.push('expiring_soon');
+  if (alg?.toLowerCase() === 'none') findings.push('alg_none');
+
+  return {
+    ...(alg !== undefined ? { alg } : {}),
+    ...(typ !== undefined ? { typ } : {}),
+    ...(kid !== undefined ? { kid } : {}),
+    ...(iss !== undefined ? { iss: hash(iss) } : {}),
+    ...(aud !== undefined ? { aud } : {}),
+    ...(issuedAt ? { issuedAt: issuedAt.toISOString() } : {}),
+    ...(notBefore ? { notBefore: notBefore.toISOString() } : {}),
+    ...(expiresAt ? { expiresAt: expiresAt.toISOString() } : {}),
+    findings
+  };
+}
+
+/** Whether `value` is a JWT whose `exp` is at or before `now`. */
+export function isJwtExpired(value: string, now: Date = new Date()): boolean {
+  return inspectJwt(value, { now })?.findings.includes('expired') ?? false;
+}
+
+/** Whether `value` is a JWT whose `exp` is at or before `now + days` (already expired tokens included). */
+export function jwtExpiresWithin(value: string, days: number, now: Date = new Date()): boolean {
+  const expiresAt = inspectJwt(value, { now })?.expiresAt;
+  if (expiresAt === undefined) return false;
+  return Date.parse(expiresAt) - now.getTime() <= days * DAY_MS;
+}
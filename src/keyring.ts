@@ -0,0 +1,65 @@
+import { mkdir, readFile } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { dirname } from 'node:path';
+import { writeTextFileAtomic } from './dotenv/io.js';
+
+export const PEPPER_KEYRING_VERSION = 1;
+
+export type PepperKeyringEntry = {
+  id: string;
+  /** Base64-encoded pepper bytes. */
+  pepper: string;
+  createdAt: string;
+  /** Set once a newer pepper became active. */
+  retiredAt?: string;
+  /** Fingerprints made with a retired pepper are accepted until this time. */
+  acceptUntil?: string;
+};
+
+/**
+ * `.envsitter/keyring.json`: every pepper still in use, one of them active. New fingerprints use the active
+ * pepper; retired ones only verify stored fingerprints until their `acceptUntil`.
+ */
+export type PepperKeyring = {
+  version: typeof PEPPER_KEYRING_VERSION;
+  active: string;
+  peppers: PepperKeyringEntry[];
+};
+
+/** Stable, non-secret identifier of a pepper: a truncated domain-separated SHA-256 of its bytes. */
+export function pepperIdFor(pepperBytes: Uint8Array): string {
+  return createHash('sha256').update('envsitter-pepper-id\0').update(pepperBytes).digest('hex').slice(0, 16);
+}
+
+export function parsePepperKeyring(text: string, filePath = 'keyring'): PepperKeyring {
+  const parsed = JSON.parse(text) as Partial<PepperKeyring> | null;
+  if (!parsed || typeof parsed !== 'object') throw new Error(`${filePath}: expected a JSON object`);
+  if (parsed.version !== PEPPER_KEYRING_VERSION) throw new Error(`${filePath}: unsupported keyring version ${String(parsed.version)}`);
+  if (!Array.isArray(parsed.peppers)) throw new Error(`${filePath}: "peppers" must be an array`);
+
+  for (const entry of parsed.peppers) {
+    const bytes = Buffer.from(typeof entry?.pepper === 'string' ? entry.pepper : '', 'base64');
+    if (bytes.length < 16) throw new Error(`${filePath}: pepper ${String(entry?.id)} is too short`);
+    if (entry.id !== pepperIdFor(bytes)) throw new Error(`${filePath}: pepper id ${String(entry.id)} does not match its pepper`);
+  }
+  if (!parsed.peppers.some((p) => p.id === parsed.active)) throw new Error(`${filePath}: active pepper ${String(parsed.active)} is not in the keyring`);
+
+  return { version: PEPPER_KEYRING_VERSION, active: parsed.active as string, peppers: parsed.peppers };
+}
+
+/** Returns `undefined` when the keyring file does not exist. */
+export async function readPepperKeyring(filePath: string): Promise<PepperKeyring | undefined> {
+  let text: string;
+  try {
+    text = await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+  return parsePepperKeyring(text, filePath);
+}
+
+export async function writePepperKeyring(filePath: string, keyring: PepperKeyring): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeTextFileAtomic(filePath, `${JSON.stringify(keyring, null, 2)}\n`, 0o600);
+}
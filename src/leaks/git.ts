@@ -0,0 +1,227 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
+import { resolve } from 'node:path';
+import { isEnvFile, isExampleEnvFile } from '../dotenv/utils.js';
+import { buildNeedles, NeedleScanner, type BuildNeedlesOptions, type LeakEncoding, type Needle, type NeedleHit } from './needles.js';
+
+export type GitEnvFileCommit = {
+  commit: string;
+  path: string;
+};
+
+export type GitLeakFinding = {
+  commit: string;
+  path: string;
+  key: string;
+  encoding: LeakEncoding;
+};
+
+export type FindGitLeaksOptions = BuildNeedlesOptions & {
+  /** Directory inside the repository (default: current directory). */
+  root?: string;
+};
+
+export type FindGitLeaksResult = {
+  root: string;
+  commitsScanned: number;
+  blobsScanned: number;
+  /** Commits on any ref that added or changed a non-example env file. */
+  envFiles: GitEnvFileCommit[];
+  /** Commits on any ref that introduced a blob containing a current value. */
+  findings: GitLeakFinding[];
+};
+
+type BlobIntroduction = {
+  commit: string;
+  path: string;
+};
+
+const EMPTY_OID = /^0+$/;
+
+export function gitProcess(root: string, args: readonly string[]): { child: ChildProcessWithoutNullStreams; exited: Promise<void> } {
+  const child = spawn('git', ['-C', root, ...args], { stdio: ['pipe', 'pipe', 'pipe'] });
+  let stderr = '';
+  child.stderr.setEncoding('utf8');
+  child.stderr.on('data', (chunk: string) => {
+    stderr += chunk;
+  });
+  const exited = new Promise<void>((resolveExit, rejectExit) => {
+    child.on('error', rejectExit);
+    child.on('close', (code) => {
+      if (code === 0) resolveExit();
+      else rejectExit(new Error(`git ${args[0] ?? ''} failed${stderr.trim() ? `: ${stderr.trim()}` : ` with exit code ${code}`}`));
+    });
+  });
+  return { child, exited };
+}
+
+/** One record of `--raw -z` output: a `%x01`-prefixed commit header, or a changed path with its new blob id. */
+export type RawDiffRecord = { commit: string } | { path: string; status: string; oid?: string };
+
+/**
+ * Runs a git command with `--raw -z` output and yields its records. Paths are read from NUL-separated fields so
+ * unusual file names survive; deleted paths and submodules (gitlinks) carry no blob and have no `oid`.
+ */
+export async function* readRawDiff(root: string, args: readonly string[]): AsyncGenerator<RawDiffRecord> {
+  const { child, exited } = gitProcess(root, args);
+  child.stdin.end();
+  child.stdout.setEncoding('utf8');
+
+  let entry: { status: string; oid?: string } | undefined;
+  let rest = '';
+
+  function* handle(raw: string): Generator<RawDiffRecord> {
+    const field = raw.replace(/^\n/, '');
+    if (entry) {
+      yield { path: field, ...entry };
+      entry = undefined;
+      return;
+    }
+    if (field.startsWith('\x01')) {
+      yield { commit: field.slice(1).trim() };
+      return;
+    }
+    const m = /^:\d+ (\d+) [0-9a-f]+ ([0-9a-f]+) ([A-Z])\d*$/.exec(field);
+    if (!m) return;
+    const oid = m[1] !== '160000' && !EMPTY_OID.test(m[2] ?? '') ? m[2] : undefined;
+    entry = { status: m[3] ?? '', ...(oid ? { oid } : {}) };
+  }
+
+  for await (const chunk of child.stdout as AsyncIterable<string>) {
+    const fields = (rest + chunk).split('\0');
+    rest = fields.pop() ?? '';
+    for (const field of fields) yield* handle(field);
+  }
+  if (rest.length > 0) yield* handle(rest);
+  await exited;
+}
+
+/**
+ * Every blob added or modified by a commit on any ref. Merges are diffed against each parent and credited only with
+ * blobs that differ from all of them, so a conflict resolution is scanned without re-crediting a branch's own blobs.
+ */
+async function blobIntroductions(root: string): Promise<{ commits: number; blobs: Map<string, BlobIntroduction[]> }> {
+  const blobs = new Map<string, BlobIntroduction[]>();
+  const commits = new Set<string>();
+  const mergeChanges = new Map<string, { oid: string; introduction: BlobIntroduction; parents: number; diffs: number }>();
+  let commit = '';
+  let parents = 0;
+
+  const add = (oid: string, introduction: BlobIntroduction) => {
+    const list = blobs.get(oid) ?? [];
+    list.push(introduction);
+    blobs.set(oid, list);
+  };
+
+  const args = ['log', '--all', '--root', '--no-renames', '--diff-merges=separate', '--raw', '--no-abbrev', '-z', '--format=%x01%H %P'];
+  for await (const record of readRawDiff(root, args)) {
+    if ('commit' in record) {
+      const [hash = '', ...parentIds] = record.commit.split(' ');
+      commit = hash;
+      parents = parentIds.length;
+      commits.add(hash);
+    } else if (record.oid !== undefined) {
+      const introduction = { commit, path: record.path };
+      if (parents < 2) {
+        add(record.oid, introduction);
+        continue;
+      }
+      const id = `${commit}\0${record.path}\0${record.oid}`;
+      const seen = mergeChanges.get(id);
+      mergeChanges.set(id, { oid: record.oid, introduction, parents, diffs: (seen?.diffs ?? 0) + 1 });
+    }
+  }
+
+  for (const change of mergeChanges.values()) {
+    if (change.diffs === change.parents) add(change.oid, change.introduction);
+  }
+
+  return { commits: commits.size, blobs };
+}
+
+/** Streams blobs through `git cat-file --batch`, one scanner per blob, and returns the hits per blob id. */
+export async function scanBlobs(root: string, oids: readonly string[], needles: readonly Needle[]): Promise<Map<string, NeedleHit[]>> {
+  const { child, exited } = gitProcess(root, ['cat-file', '--batch']);
+  child.stdin.end(oids.map((oid) => `${oid}\n`).join(''));
+
+  const hits = new Map<string, NeedleHit[]>();
+  let header = Buffer.alloc(0);
+  let current: { oid: string; remaining: number; scanner: NeedleScanner } | undefined;
+  let skipNewline = false;
+
+  for await (const data of child.stdout as AsyncIterable<Buffer>) {
+    let chunk = data;
+    while (chunk.length > 0) {
+      if (skipNewline) {
+        chunk = chunk.subarray(1);
+        skipNewline = false;
+        continue;
+      }
+
+      if (current) {
+        const body = chunk.subarray(0, current.remaining);
+        const found = current.scanner.push(body);
+        if (found.length > 0) hits.set(current.oid, [...(hits.get(current.oid) ?? []), ...found]);
+        current.remaining -= body.length;
+        chunk = chunk.subarray(body.length);
+        if (current.remaining === 0) {
+          current = undefined;
+          skipNewline = true;
+        }
+        continue;
+      }
+
+      const nl = chunk.indexOf(0x0a);
+      if (nl === -1) {
+        header = Buffer.concat([header, chunk]);
+        break;
+      }
+      const line = Buffer.concat([header, chunk.subarray(0, nl)]).toString('utf8');
+      header = Buffer.alloc(0);
+      chunk = chunk.subarray(nl + 1);
+
+      const m = /^([0-9a-f]+) (\S+) (\d+)$/.exec(line);
+      if (!m) continue;
+      const size = Number(m[3]);
+      if (size === 0) skipNewline = true;
+      else current = { oid: m[1] ?? '', remaining: size, scanner: new NeedleScanner(needles) };
+    }
+  }
+
+  await exited;
+  return hits;
+}
+
+/**
+ * Checks the local repository's history, offline: which commits on any ref added or changed a non-example
+ * env file, and which commits introduced a blob containing one of `values` (raw or encoded). Results hold
+ * commit ids, paths and key names only.
+ */
+export async function findLeaksInGitHistory(values: ReadonlyMap<string, string>, options: FindGitLeaksOptions = {}): Promise<FindGitLeaksResult> {
+  const root = resolve(options.root ?? '.');
+  const { commits, blobs } = await blobIntroductions(root);
+
+  const envFiles: GitEnvFileCommit[] = [];
+  for (const introductions of blobs.values()) {
+    for (const i of introductions) {
+      if (isEnvFile(i.path) && !isExampleEnvFile(i.path)) envFiles.push(i);
+    }
+  }
+
+  const needles = buildNeedles(values, options);
+  const oids = [...blobs.keys()];
+  const hits = needles.length > 0 && oids.length > 0 ? await scanBlobs(root, oids, needles) : new Map<string, NeedleHit[]>();
+
+  const findings: GitLeakFinding[] = [];
+  for (const [oid, blobHits] of hits) {
+    const matches = blobHits.filter((h, i) => blobHits.findIndex((o) => o.key === h.key && o.encoding === h.encoding) === i);
+    for (const introduction of blobs.get(oid) ?? []) {
+      for (const { key, encoding } of matches) findings.push({ ...introduction, key, encoding });
+    }
+  }
+
+  const byCommitPath = (a: GitEnvFileCommit, b: GitEnvFileCommit) => a.commit.localeCompare(b.commit) || a.path.localeCompare(b.path);
+  envFiles.sort(byCommitPath);
+  findings.sort((a, b) => byCommitPath(a, b) || a.key.localeCompare(b.key) || a.encoding.localeCompare(b.encoding));
+
+  return { root, commitsScanned: commits, blobsScanned: oids.length, envFiles, findings };
+}
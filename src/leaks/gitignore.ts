@@ -0,0 +1,85 @@
+type GitignoreRule = {
+  negate: boolean;
+  dirOnly: boolean;
+  regex: RegExp;
+};
+
+/** Rules of one `.gitignore`, matched against paths relative to the directory that holds it. */
+export type GitignoreRules = {
+  /** Directory of the `.gitignore`, relative to the walk root (`''` for the root). */
+  base: string;
+  rules: GitignoreRule[];
+};
+
+function globToRegexSource(glob: string): string {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i] ?? '';
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        const atStart = i === 0 || glob[i - 1] === '/';
+        const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+        if (atStart && atEnd) {
+          out += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+          i += glob[i + 2] === '/' ? 2 : 1;
+          continue;
+        }
+      }
+      out += '[^/]*';
+    } else if (c === '?') out += '[^/]';
+    else if (c === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) out += '\\[';
+      else {
+        const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        out += `[${body}]`;
+        i = end;
+      }
+    } else if (c === '\\' && i + 1 < glob.length) {
+      out += (glob[i + 1] ?? '').replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      i++;
+    } else out += c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  }
+  return out;
+}
+
+/** Supports comments, `!` negation, trailing `/` (directories only), anchoring, `*`, `?`, `[...]` and `**`. */
+export function parseGitignore(contents: string, base = ''): GitignoreRules {
+  const rules: GitignoreRule[] = [];
+  for (const rawLine of contents.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (line.length === 0 || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    if (line.length === 0) continue;
+
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+
+    const source = globToRegexSource(line);
+    rules.push({ negate, dirOnly, regex: new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`) });
+  }
+  return { base, rules };
+}
+
+/**
+ * Whether `path` (relative to the walk root, `/`-separated) is ignored by the given rule sets, outermost first.
+ * The last matching rule wins, as in git.
+ */
+export function isGitignored(path: string, isDirectory: boolean, ruleSets: readonly GitignoreRules[]): boolean {
+  let ignored = false;
+  for (const set of ruleSets) {
+    if (set.base !== '' && !path.startsWith(`${set.base}/`)) continue;
+    const relative = set.base === '' ? path : path.slice(set.base.length + 1);
+    for (const rule of set.rules) {
+      if (rule.dirOnly && !isDirectory) continue;
+      if (rule.regex.test(relative)) ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
@@ -0,0 +1,134 @@
+/** How a secret value was written where it was found. */
+export type LeakEncoding = 'raw' | 'base64' | 'base64url' | 'url' | 'json';
+
+export type Needle = {
+  key: string;
+  encoding: LeakEncoding;
+  bytes: Buffer;
+};
+
+export type NeedleHit = {
+  key: string;
+  encoding: LeakEncoding;
+  /** 1-based line number. */
+  line: number;
+  /** 1-based byte column within the line. */
+  column: number;
+  /** 0-based byte offset from the start of the stream. */
+  offset: number;
+};
+
+export type BuildNeedlesOptions = {
+  /** Values shorter than this are ignored to avoid noise (default 8). */
+  minLength?: number;
+  keysFilter?: RegExp;
+};
+
+export const DEFAULT_LEAK_MIN_LENGTH = 8;
+
+/**
+ * base64 of `bytes` wherever it sits in a larger payload: one form per alignment (0, 1 or 2 bytes ahead of it in
+ * its 3-byte group), keeping only the characters fully determined by `bytes`. This catches `base64("user:" + value)`
+ * and `echo $VALUE | base64`, where the neighbouring bytes change the edge characters.
+ */
+function base64Forms(bytes: Buffer): string[] {
+  return [0, 1, 2].map((shift) => {
+    const encoded = Buffer.concat([Buffer.alloc(shift), bytes]).toString('base64');
+    return encoded.slice(Math.ceil((8 * shift) / 6), Math.floor((8 * (shift + bytes.length)) / 6));
+  });
+}
+
+/** The encodings of `value` worth searching for, raw first; forms identical to an earlier one are dropped. */
+export function encodedForms(value: string): Array<{ encoding: LeakEncoding; text: string }> {
+  const base64 = base64Forms(Buffer.from(value, 'utf8'));
+  const forms: Array<{ encoding: LeakEncoding; text: string }> = [
+    { encoding: 'raw', text: value },
+    ...base64.map((text) => ({ encoding: 'base64' as const, text })),
+    ...base64.map((text) => ({ encoding: 'base64url' as const, text: text.replace(/\+/g, '-').replace(/\//g, '_') })),
+    { encoding: 'url', text: encodeURIComponent(value) },
+    { encoding: 'json', text: JSON.stringify(value).slice(1, -1) }
+  ];
+  return forms.filter((f, i) => f.text.length > 0 && forms.findIndex((g) => g.text === f.text) === i);
+}
+
+/** One needle per key and distinct encoded form of its value. Needles hold secret bytes and must stay in-process. */
+export function buildNeedles(values: ReadonlyMap<string, string>, options: BuildNeedlesOptions = {}): Needle[] {
+  const minLength = options.minLength ?? DEFAULT_LEAK_MIN_LENGTH;
+  const needles: Needle[] = [];
+  for (const [key, value] of values) {
+    if (options.keysFilter && !options.keysFilter.test(key)) continue;
+    if (value.length < minLength) continue;
+    for (const form of encodedForms(value)) needles.push({ key, encoding: form.encoding, bytes: Buffer.from(form.text, 'utf8') });
+  }
+  return needles;
+}
+
+const NEWLINE = 0x0a;
+
+/**
+ * Streaming multi-needle search. Each `push()` searches the new chunk together with the last
+ * `longest needle - 1` bytes of the previous one, so matches split across chunk boundaries are found exactly once.
+ */
+export class NeedleScanner {
+  private readonly needles: readonly Needle[];
+  private readonly keep: number;
+  private tail: Buffer = Buffer.alloc(0);
+  private tailOffset = 0;
+  private tailLine = 1;
+  private tailLineStart = 0;
+
+  constructor(needles: readonly Needle[]) {
+    this.needles = needles;
+    this.keep = Math.max(0, ...needles.map((n) => n.bytes.length - 1));
+  }
+
+  push(chunk: Buffer): NeedleHit[] {
+    const buf = this.tail.length > 0 ? Buffer.concat([this.tail, chunk]) : chunk;
+    const found: Array<{ needle: Needle; index: number }> = [];
+
+    for (const needle of this.needles) {
+      let index = buf.indexOf(needle.bytes);
+      while (index !== -1) {
+        if (index + needle.bytes.length > this.tail.length) found.push({ needle, index });
+        index = buf.indexOf(needle.bytes, index + 1);
+      }
+    }
+    found.sort((a, b) => a.index - b.index || a.needle.key.localeCompare(b.needle.key));
+
+    const hits: NeedleHit[] = [];
+    const position = { line: this.tailLine, lineStart: this.tailLineStart, cursor: 0 };
+    for (const { needle, index } of found) {
+      this.advance(buf, position, index);
+      const offset = this.tailOffset + index;
+      hits.push({ key: needle.key, encoding: needle.encoding, line: position.line, column: offset - position.lineStart + 1, offset });
+    }
+
+    const tailStart = Math.max(0, buf.length - this.keep);
+    const tailPosition = { line: this.tailLine, lineStart: this.tailLineStart, cursor: 0 };
+    this.advance(buf, tailPosition, tailStart);
+    this.tail = Buffer.from(buf.subarray(tailStart));
+    this.tailOffset += tailStart;
+    this.tailLine = tailPosition.line;
+    this.tailLineStart = tailPosition.lineStart;
+
+    return hits;
+  }
+
+  /** Moves `position` forward to byte `to` of `buf`, counting the newlines it passes. */
+  private advance(buf: Buffer, position: { line: number; lineStart: number; cursor: number }, to: number): void {
+    let nl = buf.indexOf(NEWLINE, position.cursor);
+    while (nl !== -1 && nl < to) {
+      position.line++;
+      position.lineStart = this.tailOffset + nl + 1;
+      nl = buf.indexOf(NEWLINE, nl + 1);
+    }
+    position.cursor = to;
+  }
+}
+
+export async function scanStreamForNeedles(stream: AsyncIterable<Buffer | string>, needles: readonly Needle[]): Promise<NeedleHit[]> {
+  const scanner = new NeedleScanner(needles);
+  const hits: NeedleHit[] = [];
+  for await (const chunk of stream) hits.push(...scanner.push(typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk));
+  return hits;
+}
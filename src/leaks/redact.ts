@@ -0,0 +1,75 @@
+import { Transform, type TransformCallback } from 'node:stream';
+import { buildNeedles, type BuildNeedlesOptions, type Needle } from './needles.js';
+
+export type RedactOptions = BuildNeedlesOptions;
+
+type RedactNeedle = Needle & { marker: Buffer };
+
+/** The text written in place of a matched value. */
+export function redactionMarker(key: string): string {
+  return `[REDACTED:${key}]`;
+}
+
+/**
+ * Transform stream that replaces secret values (raw or encoded, see `encodedForms`) with `[REDACTED:KEY]`.
+ * Up to `longest needle - 1` bytes are held back between chunks so values split across chunk boundaries are
+ * still replaced; they are released on the next chunk or at end of stream. Overlapping matches resolve to the
+ * leftmost, then longest, value.
+ */
+export class RedactStream extends Transform {
+  private readonly needles: RedactNeedle[];
+  private readonly keep: number;
+  private pending: Buffer = Buffer.alloc(0);
+  private count = 0;
+
+  constructor(values: ReadonlyMap<string, string>, options: RedactOptions = {}) {
+    super();
+    this.needles = buildNeedles(values, options)
+      .map((n) => ({ ...n, marker: Buffer.from(redactionMarker(n.key), 'utf8') }))
+      .sort((a, b) => b.bytes.length - a.bytes.length);
+    this.keep = Math.max(0, ...this.needles.map((n) => n.bytes.length - 1));
+  }
+
+  /** Number of values replaced so far. */
+  get redactions(): number {
+    return this.count;
+  }
+
+  override _transform(chunk: Buffer | string, encoding: BufferEncoding, callback: TransformCallback): void {
+    const data = typeof chunk === 'string' ? Buffer.from(chunk, encoding) : chunk;
+    const buf = this.pending.length > 0 ? Buffer.concat([this.pending, data]) : data;
+    this.pending = this.redact(buf, Math.max(0, buf.length - this.keep));
+    callback();
+  }
+
+  override _flush(callback: TransformCallback): void {
+    this.redact(this.pending, this.pending.length);
+    this.pending = Buffer.alloc(0);
+    callback();
+  }
+
+  /**
+   * Pushes `buf` with every match that starts before `safe` replaced, and returns the bytes that must wait for
+   * more input. A match starting before `safe` always lies wholly inside `buf`.
+   */
+  private redact(buf: Buffer, safe: number): Buffer {
+    let cursor = 0;
+    for (;;) {
+      let best: { index: number; needle: RedactNeedle } | undefined;
+      for (const needle of this.needles) {
+        const index = buf.indexOf(needle.bytes, cursor);
+        if (index !== -1 && index < safe && (!best || index < best.index)) best = { index, needle };
+      }
+      if (!best) break;
+
+      if (best.index > cursor) this.push(buf.subarray(cursor, best.index));
+      this.push(best.needle.marker);
+      this.count++;
+      cursor = best.index + best.needle.bytes.length;
+    }
+
+    const end = Math.max(cursor, safe);
+    if (end > cursor) this.push(buf.subarray(cursor, end));
+    return Buffer.from(buf.subarray(end));
+  }
+}
@@ -0,0 +1,143 @@
+import { readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { isEnvFile, isExampleEnvFile } from '../dotenv/utils.js';
+import { gitProcess, readRawDiff, scanBlobs } from './git.js';
+import { isGitignored, parseGitignore, type GitignoreRules } from './gitignore.js';
+import { buildNeedles, type BuildNeedlesOptions, type LeakEncoding, type NeedleHit } from './needles.js';
+
+/** Allowlist read by `findStagedLeaks` when no other path is given, relative to the repository root. */
+export const DEFAULT_PRECOMMIT_ALLOWLIST_FILE = '.envsitter/allowlist';
+
+export type PrecommitAllowEntry = {
+  /** Gitignore-style path pattern, relative to the repository root. */
+  pattern: string;
+  /** Keys whose values may appear in matching files; when absent the files are not checked at all. */
+  keys?: string[];
+};
+
+export type StagedBlockedFile = {
+  path: string;
+  reason: 'env_file' | 'pepper_file';
+};
+
+export type StagedLeakFinding = {
+  path: string;
+  line: number;
+  column: number;
+  key: string;
+  encoding: LeakEncoding;
+};
+
+export type FindStagedLeaksOptions = BuildNeedlesOptions & {
+  /** Directory inside the repository (default: current directory). */
+  root?: string;
+  /** Allowlist file to read instead of `<repo>/.envsitter/allowlist`. */
+  allowlistPath?: string;
+  /** Entries to use instead of reading an allowlist file. */
+  allowlist?: readonly PrecommitAllowEntry[];
+};
+
+export type FindStagedLeaksResult = {
+  /** Repository root; paths are relative to it. */
+  root: string;
+  filesScanned: number;
+  blocked: StagedBlockedFile[];
+  findings: StagedLeakFinding[];
+};
+
+/**
+ * One entry per line: a gitignore-style path pattern, optionally followed by comma-separated key names.
+ * `#` starts a comment.
+ */
+export function parsePrecommitAllowlist(contents: string): PrecommitAllowEntry[] {
+  const entries: PrecommitAllowEntry[] = [];
+  for (const rawLine of contents.split(/\r?\n/)) {
+    const line = rawLine.replace(/(?:^|\s)#.*$/, '').trim();
+    if (line.length === 0) continue;
+
+    const [, pattern = '', keysRaw] = /^(\S+)(?:\s+(.*))?$/.exec(line) ?? [];
+    const keys = keysRaw
+      ?.split(',')
+      .map((k) => k.trim())
+      .filter((k) => k.length > 0);
+    entries.push({ pattern, ...(keys && keys.length > 0 ? { keys } : {}) });
+  }
+  return entries;
+}
+
+function isPepperFile(path: string): boolean {
+  return /(?:^|\/)\.envsitter\/(?:pepper|keyring\.json)$/.test(path);
+}
+
+async function gitOutput(root: string, args: readonly string[]): Promise<string> {
+  const { child, exited } = gitProcess(root, args);
+  child.stdin.end();
+  child.stdout.setEncoding('utf8');
+  let out = '';
+  for await (const chunk of child.stdout as AsyncIterable<string>) out += chunk;
+  await exited;
+  return out;
+}
+
+async function readAllowlist(path: string, required: boolean): Promise<PrecommitAllowEntry[]> {
+  try {
+    return parsePrecommitAllowlist(await readFile(path, 'utf8'));
+  } catch (error) {
+    if (!required && (error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Checks what is staged in the git index: non-example env files, `.envsitter/pepper` and the pepper keyring are blocked outright,
+ * and every other staged file is searched for `values` (raw or encoded). Results hold paths, line/column and
+ * key names only.
+ */
+export async function findStagedLeaks(values: ReadonlyMap<string, string>, options: FindStagedLeaksOptions = {}): Promise<FindStagedLeaksResult> {
+  const root = (await gitOutput(resolve(options.root ?? '.'), ['rev-parse', '--show-toplevel'])).trim();
+
+  const allowlist =
+    options.allowlist ??
+    (options.allowlistPath !== undefined
+      ? await readAllowlist(resolve(options.allowlistPath), true)
+      : await readAllowlist(join(root, DEFAULT_PRECOMMIT_ALLOWLIST_FILE), false));
+  const rules = allowlist.map((entry): { entry: PrecommitAllowEntry; rules: GitignoreRules } => ({ entry, rules: parseGitignore(entry.pattern) }));
+  const allowedKeys = (path: string): Set<string> | 'all' | undefined => {
+    const matching = rules.filter((r) => isGitignored(path, false, [r.rules])).map((r) => r.entry);
+    if (matching.length === 0) return undefined;
+    if (matching.some((e) => e.keys === undefined)) return 'all';
+    return new Set(matching.flatMap((e) => e.keys ?? []));
+  };
+
+  const blocked: StagedBlockedFile[] = [];
+  const staged = new Map<string, string[]>();
+  for await (const record of readRawDiff(root, ['diff', '--cached', '--raw', '--no-renames', '--no-abbrev', '-z'])) {
+    if ('commit' in record || record.oid === undefined) continue;
+    const allowed = allowedKeys(record.path);
+    if (allowed === 'all') continue;
+
+    if (isPepperFile(record.path)) blocked.push({ path: record.path, reason: 'pepper_file' });
+    else if (isEnvFile(record.path) && !isExampleEnvFile(record.path)) blocked.push({ path: record.path, reason: 'env_file' });
+    else staged.set(record.oid, [...(staged.get(record.oid) ?? []), record.path]);
+  }
+
+  const needles = buildNeedles(values, options);
+  const oids = [...staged.keys()];
+  const hits = needles.length > 0 && oids.length > 0 ? await scanBlobs(root, oids, needles) : new Map<string, NeedleHit[]>();
+
+  const findings: StagedLeakFinding[] = [];
+  for (const [oid, blobHits] of hits) {
+    for (const path of staged.get(oid) ?? []) {
+      const allowed = allowedKeys(path);
+      for (const hit of blobHits) {
+        if (allowed instanceof Set && allowed.has(hit.key)) continue;
+        findings.push({ path, line: hit.line, column: hit.column, key: hit.key, encoding: hit.encoding });
+      }
+    }
+  }
+
+  blocked.sort((a, b) => a.path.localeCompare(b.path));
+  findings.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line || a.column - b.column);
+
+  return { root, filesScanned: [...staged.values()].reduce((n, paths) => n + paths.length, 0), blocked, findings };
+}
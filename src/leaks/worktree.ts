@@ -0,0 +1,88 @@
+import { createReadStream } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import { join, relative, resolve, sep } from 'node:path';
+import { isGitignored, parseGitignore, type GitignoreRules } from './gitignore.js';
+import { buildNeedles, scanStreamForNeedles, type BuildNeedlesOptions, type LeakEncoding, type Needle, type NeedleHit } from './needles.js';
+
+export type LeakFinding = {
+  /** Path relative to the scanned root, `/`-separated. */
+  file: string;
+  line: number;
+  column: number;
+  key: string;
+  encoding: LeakEncoding;
+};
+
+export type FindLeaksOptions = BuildNeedlesOptions & {
+  /** Directory to walk (default: current directory). */
+  root?: string;
+  /** Files to skip, e.g. the env files the values came from. */
+  exclude?: readonly string[];
+};
+
+export type FindLeaksResult = {
+  root: string;
+  filesScanned: number;
+  findings: LeakFinding[];
+};
+
+function toPosix(path: string): string {
+  return sep === '/' ? path : path.split(sep).join('/');
+}
+
+async function readGitignore(dir: string, base: string): Promise<GitignoreRules | undefined> {
+  try {
+    return parseGitignore(await readFile(join(dir, '.gitignore'), 'utf8'), base);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Yields files under `root` in sorted order, honouring nested `.gitignore` files and skipping `.git` and symlinks. */
+async function* walk(root: string, dir: string, ruleSets: readonly GitignoreRules[]): AsyncGenerator<string> {
+  const base = toPosix(relative(root, dir));
+  const own = await readGitignore(dir, base);
+  const sets = own ? [...ruleSets, own] : ruleSets;
+
+  const entries = await readdir(dir, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    if (entry.name === '.git') continue;
+    const path = base === '' ? entry.name : `${base}/${entry.name}`;
+    if (entry.isDirectory()) {
+      if (!isGitignored(path, true, sets)) yield* walk(root, join(dir, entry.name), sets);
+    } else if (entry.isFile() && !isGitignored(path, false, sets)) yield path;
+  }
+}
+
+/** Streams one file through the needle scanner; file contents are never buffered whole. */
+async function findNeedlesInFile(path: string, needles: readonly Needle[]): Promise<NeedleHit[]> {
+  return scanStreamForNeedles(createReadStream(path, { highWaterMark: 64 * 1024 }), needles);
+}
+
+/**
+ * Walks a directory tree and reports where secret values (raw, base64, base64url, URL-encoded or JSON-escaped)
+ * occur. Findings carry the file, line, column and key name only.
+ */
+export async function findLeaksInWorkingTree(values: ReadonlyMap<string, string>, options: FindLeaksOptions = {}): Promise<FindLeaksResult> {
+  const root = resolve(options.root ?? '.');
+  const needles = buildNeedles(values, options);
+  const excluded = new Set((options.exclude ?? []).map((p) => resolve(p)));
+
+  const findings: LeakFinding[] = [];
+  let filesScanned = 0;
+  if (needles.length === 0) return { root, filesScanned, findings };
+
+  for await (const file of walk(root, root, [])) {
+    const absolute = join(root, file);
+    if (excluded.has(absolute)) continue;
+
+    filesScanned++;
+    for (const hit of await findNeedlesInFile(absolute, needles)) {
+      findings.push({ file, line: hit.line, column: hit.column, key: hit.key, encoding: hit.encoding });
+    }
+  }
+
+  return { root, filesScanned, findings };
+}
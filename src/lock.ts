@@ -0,0 +1,120 @@
+import { readFile } from 'node:fs/promises';
+import type { AuditLengthBucket } from './audit.js';
+import { isFingerprintAlgorithm, parseScryptParams, type FingerprintAlgorithm, type ScryptParams } from './fingerprint.js';
+import type { ValueShape } from './value-shapes.js';
+
+export const DEFAULT_LOCK_FILE = 'env.lock.json';
+
+const LENGTH_BUCKETS: readonly AuditLengthBucket[] = ['0', '1-7', '8-15', '16-31', '32-63', '64+'];
+const VALUE_SHAPES: readonly ValueShape[] = ['empty', 'boolean', 'number', 'jwt', 'url', 'base64', 'string'];
+
+/** What `env.lock.json` records for one key. Nothing here reveals the value. */
+export type EnvLockKey = {
+  algorithm: FingerprintAlgorithm;
+  /** Cost parameters, for `scrypt`. */
+  params?: ScryptParams;
+  /** base64url keyed digest of the value. */
+  fingerprint: string;
+  /** The pepper that produced `fingerprint` (see `pepper rotate`). */
+  pepperId: string;
+  lengthBucket: AuditLengthBucket;
+  shape: ValueShape;
+};
+
+export type EnvLock = {
+  version: 1;
+  keys: Record<string, EnvLockKey>;
+};
+
+/**
+ * `changed`: the value no longer matches its fingerprint. `unverifiable`: the fingerprint was made with a pepper
+ * that is not available (or past its grace window), so the value cannot be checked.
+ */
+export type EnvLockStatus = 'added' | 'removed' | 'changed' | 'unverifiable' | 'unchanged';
+
+export type EnvLockKeyResult = {
+  key: string;
+  status: EnvLockStatus;
+  /** Recorded metadata; absent for added keys. */
+  locked?: Pick<EnvLockKey, 'lengthBucket' | 'shape'>;
+  /** Current metadata; absent for removed keys. */
+  current?: Pick<EnvLockKey, 'lengthBucket' | 'shape'>;
+};
+
+export type EnvLockVerifyResult = {
+  /** True when every key is `unchanged`. */
+  ok: boolean;
+  added: number;
+  removed: number;
+  changed: number;
+  unverifiable: number;
+  unchanged: number;
+  keys: EnvLockKeyResult[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseLockKey(key: string, raw: unknown): EnvLockKey {
+  if (!isRecord(raw)) throw new Error(`Lock key ${key} must be an object`);
+  if (!isFingerprintAlgorithm(raw.algorithm)) throw new Error(`Lock key ${key}: unsupported algorithm ${String(raw.algorithm)}`);
+  if (typeof raw.fingerprint !== 'string' || raw.fingerprint.length === 0) throw new Error(`Lock key ${key}: fingerprint must be a string`);
+  if (typeof raw.pepperId !== 'string' || raw.pepperId.length === 0) throw new Error(`Lock key ${key}: pepperId must be a string`);
+  if (!LENGTH_BUCKETS.includes(raw.lengthBucket as AuditLengthBucket)) throw new Error(`Lock key ${key}: lengthBucket must be one of ${LENGTH_BUCKETS.join(', ')}`);
+  if (!VALUE_SHAPES.includes(raw.shape as ValueShape)) throw new Error(`Lock key ${key}: shape must be one of ${VALUE_SHAPES.join(', ')}`);
+
+  let params: ScryptParams | undefined;
+  if (raw.algorithm === 'scrypt') {
+    try {
+      params = parseScryptParams(raw.params);
+    } catch (error) {
+      throw new Error(`Lock key ${key}: ${(error as Error).message}`);
+    }
+  }
+
+  return {
+    algorithm: raw.algorithm,
+    ...(params ? { params } : {}),
+    fingerprint: raw.fingerprint,
+    pepperId: raw.pepperId,
+    lengthBucket: raw.lengthBucket as AuditLengthBucket,
+    shape: raw.shape as ValueShape
+  };
+}
+
+/** Tells a lock file apart from other saved fingerprint JSON (a `fingerprint` object or array). */
+export function isEnvLock(raw: unknown): boolean {
+  return isRecord(raw) && raw.version !== undefined && isRecord(raw.keys);
+}
+
+export function parseEnvLock(raw: unknown): EnvLock {
+  if (!isRecord(raw)) throw new Error('Lock file must be a JSON object');
+  if (raw.version !== 1) throw new Error('Unsupported lock file version (expected 1)');
+  if (!isRecord(raw.keys)) throw new Error('Lock file keys must be an object');
+
+  const keys: Record<string, EnvLockKey> = {};
+  for (const [key, entry] of Object.entries(raw.keys)) keys[key] = parseLockKey(key, entry);
+  return { version: 1, keys };
+}
+
+export async function readEnvLockFile(filePath: string): Promise<EnvLock> {
+  const contents = await readFile(filePath, 'utf8');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch {
+    throw new Error(`Lock file is not valid JSON: ${filePath}`);
+  }
+  return parseEnvLock(parsed);
+}
+
+/** Keys are written sorted, so re-running `snapshot` on an unchanged source yields an identical file. */
+export function stringifyEnvLock(lock: EnvLock): string {
+  const keys = Object.fromEntries(
+    Object.keys(lock.keys)
+      .sort((a, b) => a.localeCompare(b))
+      .map((key) => [key, lock.keys[key]])
+  );
+  return `${JSON.stringify({ version: lock.version, keys }, null, 2)}\n`;
+}
@@ -0,0 +1,206 @@
+import { X509Certificate, createPrivateKey, type KeyObject } from 'node:crypto';
+
+export type PemKeyInfo = {
+  /** `rsa`, `rsa-pss`, `ec`, `ed25519`, `ed448`, `dsa`, ... (Node's `asymmetricKeyType`). */
+  keyAlgorithm?: string;
+  /** Modulus length for RSA/DSA, curve size for EC. */
+  keySize?: number;
+  curve?: string;
+};
+
+export type CertificateFinding = 'expired' | 'expiring_soon' | 'not_yet_valid' | 'weak_key';
+
+export type CertificateInspection = PemKeyInfo & {
+  /** Validity window as ISO-8601 timestamps. */
+  validFrom: string;
+  validTo: string;
+  /** Whole days until `validTo` (negative once expired). */
+  daysUntilExpiry: number;
+  selfSigned: boolean;
+  ca: boolean;
+  /** Number of certificates in the value (leaf first); only the leaf is inspected. */
+  chainLength: number;
+  findings: CertificateFinding[];
+};
+
+export type PrivateKeyFormat = 'pkcs8' | 'pkcs1' | 'sec1' | 'openssh';
+
+export type PrivateKeyFinding = 'weak_key';
+
+export type PrivateKeyInspection = PemKeyInfo & {
+  format: PrivateKeyFormat;
+  /** Passphrase-protected; algorithm and size are unknown for encrypted PKCS#8 keys. */
+  encrypted: boolean;
+  findings: PrivateKeyFinding[];
+};
+
+export type InspectPemOptions = {
+  now?: Date;
+  /** Report `expiring_soon` when a certificate expires within this many days (default 30). */
+  expiringWithinDays?: number;
+};
+
+export const DEFAULT_CERT_EXPIRING_WITHIN_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_RSA_BITS = 2048;
+
+const CURVE_SIZES: Readonly<Record<string, number>> = {
+  prime256v1: 256,
+  secp256k1: 256,
+  secp384r1: 384,
+  secp521r1: 521,
+  nistp256: 256,
+  nistp384: 384,
+  nistp521: 521
+};
+
+const PEM_BLOCK = /-----BEGIN ([A-Z0-9 ]+)-----[\s\S]*?-----END \1-----/g;
+
+/** PEM values are often stored on one line with literal `\n` escapes; restore the newlines before parsing. */
+function normalizePem(value: string): string {
+  return !value.includes('\n') && value.includes('\\n') ? value.replace(/\\n/g, '\n') : value;
+}
+
+function pemBlocks(value: string): Array<{ label: string; pem: string }> {
+  return [...normalizePem(value).matchAll(PEM_BLOCK)].map((m) => ({ label: m[1] ?? '', pem: m[0] }));
+}
+
+function keyInfo(key: KeyObject): PemKeyInfo {
+  const details = key.asymmetricKeyDetails;
+  const curve = details?.namedCurve;
+  const keySize = details?.modulusLength ?? (curve ? CURVE_SIZES[curve] : undefined);
+  return {
+    ...(key.asymmetricKeyType ? { keyAlgorithm: key.asymmetricKeyType } : {}),
+    ...(keySize !== undefined ? { keySize } : {}),
+    ...(curve ? { curve } : {})
+  };
+}
+
+function isWeakKey(info: PemKeyInfo): boolean {
+  return (info.keyAlgorithm === 'rsa' || info.keyAlgorithm === 'rsa-pss' || info.keyAlgorithm === 'dsa') && (info.keySize ?? 0) < MIN_RSA_BITS;
+}
+
+function leafCertificate(value: string): { cert: X509Certificate; chainLength: number } | undefined {
+  const certs = pemBlocks(value).filter((b) => b.label === 'CERTIFICATE');
+  const leaf = certs[0];
+  if (!leaf) return undefined;
+  try {
+    return { cert: new X509Certificate(leaf.pem), chainLength: certs.length };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Inspects the leaf certificate of a PEM value. Subject, issuer and SANs are not returned. */
+export function inspectCertificate(value: string, options: InspectPemOptions = {}): CertificateInspection | undefined {
+  const leaf = leafCertificate(value);
+  if (!leaf) return undefined;
+  const { cert, chainLength } = leaf;
+
+  const validFrom = new Date(cert.validFrom);
+  const validTo = new Date(cert.validTo);
+  const now = (options.now ?? new Date()).getTime();
+  const withinMs = (options.expiringWithinDays ?? DEFAULT_CERT_EXPIRING_WITHIN_DAYS) * DAY_MS;
+  const info = keyInfo(cert.publicKey);
+
+  const findings: CertificateFinding[] = [];
+  if (validTo.getTime() <= now) findings.push('expired');
+  else if (validTo.getTime() - now <= withinMs) findings.push('expiring_soon');
+  if (validFrom.getTime() > now) findings.push('not_yet_valid');
+  if (isWeakKey(info)) findings.push('weak_key');
+
+  return {
+    ...info,
+    validFrom: validFrom.toISOString(),
+    validTo: validTo.toISOString(),
+    daysUntilExpiry: Math.floor((validTo.getTime() - now) / DAY_MS),
+    selfSigned: cert.checkIssued(cert) && cert.verify(cert.publicKey),
+    ca: cert.ca,
+    chainLength,
+    findings
+  };
+}
+
+/** Reads the cipher and public key type from an `openssh-key-v1` blob without touching the private part. */
+function inspectOpenSshKey(pem: string): PrivateKeyInspection | undefined {
+  const body = pem.replace(/-----(?:BEGIN|END) OPENSSH PRIVATE KEY-----/g, '').replace(/\s+/g, '');
+  const buf = Buffer.from(body, 'base64');
+  const magic = 'openssh-key-v1\0';
+  if (buf.subarray(0, magic.length).toString('latin1') !== magic) return undefined;
+
+  let offset = magic.length;
+  const readString = (from: Buffer = buf): Buffer | undefined => {
+    if (offset + 4 > from.length) return undefined;
+    const length = from.readUInt32BE(offset);
+    const out = from.subarray(offset + 4, offset + 4 + length);
+    offset += 4 + length;
+    return out.length === length ? out : undefined;
+  };
+
+  const cipher = readString()?.toString('latin1');
+  readString();
+  readString();
+  offset += 4;
+  const publicBlob = readString();
+  if (cipher === undefined || !publicBlob) return undefined;
+
+  offset = 0;
+  const type = readString(publicBlob)?.toString('latin1') ?? '';
+  let info: PemKeyInfo = {};
+  if (type === 'ssh-ed25519') info = { keyAlgorithm: 'ed25519' };
+  else if (type === 'ssh-rsa') {
+    readString(publicBlob);
+    const modulus = readString(publicBlob);
+    const bytes = modulus ? (modulus[0] === 0 ? modulus.length - 1 : modulus.length) : 0;
+    info = { keyAlgorithm: 'rsa', ...(bytes > 0 ? { keySize: bytes * 8 } : {}) };
+  } else if (type.startsWith('ecdsa-sha2-')) {
+    const curve = type.slice('ecdsa-sha2-'.length);
+    const keySize = CURVE_SIZES[curve];
+    info = { keyAlgorithm: 'ec', curve, ...(keySize !== undefined ? { keySize } : {}) };
+  } else if (type.length > 0) info = { keyAlgorithm: type };
+
+  return { ...info, format: 'openssh', encrypted: cipher !== 'none', findings: isWeakKey(info) ? ['weak_key'] : [] };
+}
+
+function privateKeyBlock(value: string): { label: string; pem: string } | undefined {
+  return pemBlocks(value).find((b) => /^(?:(?:RSA|EC|DSA|ENCRYPTED|OPENSSH) )?PRIVATE KEY$/.test(b.label));
+}
+
+function formatFor(label: string): PrivateKeyFormat {
+  if (label === 'RSA PRIVATE KEY' || label === 'DSA PRIVATE KEY') return 'pkcs1';
+  if (label === 'EC PRIVATE KEY') return 'sec1';
+  if (label === 'OPENSSH PRIVATE KEY') return 'openssh';
+  return 'pkcs8';
+}
+
+/** Inspects the first private key of a PEM value. The key material is never returned. */
+export function inspectPrivateKey(value: string): PrivateKeyInspection | undefined {
+  const block = privateKeyBlock(value);
+  if (!block) return undefined;
+
+  const format = formatFor(block.label);
+  if (format === 'openssh') return inspectOpenSshKey(block.pem);
+  if (block.label === 'ENCRYPTED PRIVATE KEY' || /Proc-Type:\s*4,ENCRYPTED/.test(block.pem)) {
+    return { format, encrypted: true, findings: [] };
+  }
+
+  try {
+    const info = keyInfo(createPrivateKey(block.pem));
+    return { ...info, format, encrypted: false, findings: isWeakKey(info) ? ['weak_key'] : [] };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Whether an unencrypted private key in `keyValue` belongs to the leaf certificate in `certValue`. */
+export function privateKeyMatchesCertificate(keyValue: string, certValue: string): boolean {
+  const block = privateKeyBlock(keyValue);
+  const leaf = leafCertificate(certValue);
+  if (!block || !leaf || block.label === 'OPENSSH PRIVATE KEY') return false;
+  try {
+    return leaf.cert.checkPrivateKey(createPrivateKey(block.pem));
+  } catch {
+    return false;
+  }
+}
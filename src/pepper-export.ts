@@ -0,0 +1,202 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  scrypt,
+  type KeyObject
+} from 'node:crypto';
+import { estimateEntropyBits } from './audit.js';
+import { parseScryptParams, type ScryptParams } from './fingerprint.js';
+import { pepperIdFor } from './keyring.js';
+
+export const PEPPER_EXPORT_FORMAT = 'envsitter-pepper';
+export const PEPPER_EXPORT_VERSION = 1;
+
+/** 128 MiB per attempt: slow enough that an exported file is a poor target for passphrase guessing. */
+export const DEFAULT_PEPPER_EXPORT_SCRYPT_PARAMS: ScryptParams = { N: 131072, r: 8, p: 1 };
+
+/** Exports with cheaper scrypt settings than this are refused on both ends. */
+const MIN_EXPORT_SCRYPT_N = 16384;
+
+export const MIN_PASSPHRASE_LENGTH = 12;
+const MIN_PASSPHRASE_ENTROPY_BITS = 48;
+
+/** How the AES-256-GCM key was derived: from a passphrase, or by X25519 agreement with the recipient's key. */
+export type PepperExportWrap =
+  | { type: 'scrypt'; salt: string; N: number; r: number; p: number }
+  | { type: 'x25519'; salt: string; ephemeralPublicKey: string };
+
+/**
+ * A pepper encrypted for sharing. Everything except `ciphertext` is public; the header (format, version, pepper ID
+ * and wrap) is authenticated, so it cannot be altered without failing decryption.
+ */
+export type PepperExport = {
+  format: typeof PEPPER_EXPORT_FORMAT;
+  version: typeof PEPPER_EXPORT_VERSION;
+  pepperId: string;
+  cipher: 'aes-256-gcm';
+  wrap: PepperExportWrap;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+};
+
+/** Wrap with a passphrase, or for the holder of an X25519 private key (`recipient` is its PEM public key). */
+export type PepperWrapOptions = { passphrase: string; scryptParams?: ScryptParams } | { recipient: string | KeyObject };
+
+/** Unwrap with the passphrase, or with the recipient's PEM private key (`identity`). */
+export type PepperUnwrapOptions = { passphrase: string } | { identity: string | KeyObject };
+
+const HKDF_INFO = 'envsitter-pepper-export/x25519';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function scryptKey(passphrase: string, salt: Buffer, params: ScryptParams): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase.normalize('NFC'), salt, 32, { ...params, maxmem: 512 * 1024 * 1024 }, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+function x25519PublicKey(key: string | KeyObject): KeyObject {
+  const publicKey = typeof key === 'string' ? createPublicKey(key) : key.type === 'private' ? createPublicKey(key) : key;
+  if (publicKey.asymmetricKeyType !== 'x25519') throw new Error(`Recipient key must be an X25519 key, got ${String(publicKey.asymmetricKeyType)}`);
+  return publicKey;
+}
+
+function x25519PrivateKey(key: string | KeyObject): KeyObject {
+  const privateKey = typeof key === 'string' ? createPrivateKey(key) : key;
+  if (privateKey.type !== 'private' || privateKey.asymmetricKeyType !== 'x25519') throw new Error('Identity must be an X25519 private key');
+  return privateKey;
+}
+
+function x25519Key(privateKey: KeyObject, publicKey: KeyObject, salt: Buffer, ephemeralPublicKey: Buffer, recipientPublicKey: Buffer): Buffer {
+  const shared = diffieHellman({ privateKey, publicKey });
+  if (shared.every((b) => b === 0)) throw new Error('X25519 key agreement produced an all-zero secret');
+  const info = Buffer.concat([Buffer.from(HKDF_INFO), ephemeralPublicKey, recipientPublicKey]);
+  return Buffer.from(hkdfSync('sha256', shared, salt, info, 32));
+}
+
+function spki(key: KeyObject): Buffer {
+  return key.export({ type: 'spki', format: 'der' });
+}
+
+function headerAad(exported: Pick<PepperExport, 'format' | 'version' | 'pepperId' | 'cipher' | 'wrap'>): Buffer {
+  return Buffer.from(JSON.stringify([exported.format, exported.version, exported.pepperId, exported.cipher, exported.wrap]));
+}
+
+/** Reasons a passphrase is refused for `exportPepper` (empty when acceptable). */
+export function passphraseWeaknesses(passphrase: string): string[] {
+  const reasons: string[] = [];
+  if ([...passphrase].length < MIN_PASSPHRASE_LENGTH) reasons.push(`shorter than ${MIN_PASSPHRASE_LENGTH} characters`);
+  if (estimateEntropyBits(passphrase) < MIN_PASSPHRASE_ENTROPY_BITS) reasons.push('too predictable');
+  if (/^(.{1,4})\1{2,}$/s.test(passphrase)) reasons.push('repeats a short pattern');
+  return reasons;
+}
+
+/** A fresh X25519 key pair for receiving exported peppers, as PKCS#8 / SPKI PEM. */
+export function generatePepperIdentity(): { privateKeyPem: string; publicKeyPem: string } {
+  const { privateKey, publicKey } = generateKeyPairSync('x25519');
+  return {
+    privateKeyPem: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKeyPem: publicKey.export({ type: 'spki', format: 'pem' }).toString()
+  };
+}
+
+export async function exportPepper(pepperBytes: Uint8Array, options: PepperWrapOptions): Promise<PepperExport> {
+  const salt = randomBytes(16);
+  let wrap: PepperExportWrap;
+  let key: Buffer;
+
+  if ('passphrase' in options) {
+    const weaknesses = passphraseWeaknesses(options.passphrase);
+    if (weaknesses.length > 0) throw new Error(`Passphrase is too weak: ${weaknesses.join(', ')}`);
+    const params = parseScryptParams(options.scryptParams ?? DEFAULT_PEPPER_EXPORT_SCRYPT_PARAMS);
+    if (params.N < MIN_EXPORT_SCRYPT_N) throw new Error(`scrypt N must be at least ${MIN_EXPORT_SCRYPT_N} for exports`);
+    wrap = { type: 'scrypt', salt: salt.toString('base64'), ...params };
+    key = await scryptKey(options.passphrase, salt, params);
+  } else {
+    const recipient = x25519PublicKey(options.recipient);
+    const ephemeral = generateKeyPairSync('x25519');
+    const ephemeralPublicKey = spki(ephemeral.publicKey);
+    wrap = { type: 'x25519', salt: salt.toString('base64'), ephemeralPublicKey: ephemeralPublicKey.toString('base64') };
+    key = x25519Key(ephemeral.privateKey, recipient, salt, ephemeralPublicKey, spki(recipient));
+  }
+
+  const header = { format: PEPPER_EXPORT_FORMAT, version: PEPPER_EXPORT_VERSION, pepperId: pepperIdFor(pepperBytes), cipher: 'aes-256-gcm', wrap } as const;
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(headerAad(header));
+  const ciphertext = Buffer.concat([cipher.update(pepperBytes), cipher.final()]);
+
+  return { ...header, iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), ciphertext: ciphertext.toString('base64') };
+}
+
+export function parsePepperExport(raw: unknown): PepperExport {
+  if (!isRecord(raw) || raw.format !== PEPPER_EXPORT_FORMAT) throw new Error('Not an envsitter pepper export');
+  if (raw.version !== PEPPER_EXPORT_VERSION) throw new Error(`Unsupported pepper export version ${String(raw.version)}`);
+  if (raw.cipher !== 'aes-256-gcm') throw new Error(`Unsupported pepper export cipher ${String(raw.cipher)}`);
+  for (const field of ['pepperId', 'iv', 'tag', 'ciphertext'] as const) {
+    if (typeof raw[field] !== 'string' || raw[field].length === 0) throw new Error(`Pepper export ${field} must be a string`);
+  }
+
+  const wrap = raw.wrap;
+  if (!isRecord(wrap) || typeof wrap.salt !== 'string') throw new Error('Pepper export wrap must be an object with a salt');
+  let parsedWrap: PepperExportWrap;
+  if (wrap.type === 'scrypt') {
+    const params = parseScryptParams(wrap);
+    if (params.N < MIN_EXPORT_SCRYPT_N) throw new Error(`Pepper export scrypt N is below ${MIN_EXPORT_SCRYPT_N}`);
+    parsedWrap = { type: 'scrypt', salt: wrap.salt, ...params };
+  } else if (wrap.type === 'x25519') {
+    if (typeof wrap.ephemeralPublicKey !== 'string') throw new Error('Pepper export wrap is missing the ephemeral public key');
+    parsedWrap = { type: 'x25519', salt: wrap.salt, ephemeralPublicKey: wrap.ephemeralPublicKey };
+  } else throw new Error(`Unsupported pepper export wrap ${String(wrap.type)}`);
+
+  return {
+    format: PEPPER_EXPORT_FORMAT,
+    version: PEPPER_EXPORT_VERSION,
+    pepperId: raw.pepperId as string,
+    cipher: 'aes-256-gcm',
+    wrap: parsedWrap,
+    iv: raw.iv as string,
+    tag: raw.tag as string,
+    ciphertext: raw.ciphertext as string
+  };
+}
+
+/** Decrypts an export. A wrong passphrase or identity and any tampering fail the same way. */
+export async function unwrapPepperExport(exported: PepperExport, options: PepperUnwrapOptions): Promise<Uint8Array> {
+  const salt = Buffer.from(exported.wrap.salt, 'base64');
+  let key: Buffer;
+
+  if (exported.wrap.type === 'scrypt') {
+    if (!('passphrase' in options)) throw new Error('This pepper export is protected by a passphrase');
+    const { N, r, p } = exported.wrap;
+    key = await scryptKey(options.passphrase, salt, { N, r, p });
+  } else {
+    if (!('identity' in options)) throw new Error('This pepper export is encrypted to an X25519 key; provide the identity');
+    const privateKey = x25519PrivateKey(options.identity);
+    const ephemeralPublicKey = Buffer.from(exported.wrap.ephemeralPublicKey, 'base64');
+    const ephemeral = x25519PublicKey(createPublicKey({ key: ephemeralPublicKey, format: 'der', type: 'spki' }));
+    key = x25519Key(privateKey, ephemeral, salt, ephemeralPublicKey, spki(createPublicKey(privateKey)));
+  }
+
+  let pepperBytes: Uint8Array;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(exported.iv, 'base64'), { authTagLength: 16 });
+    decipher.setAAD(headerAad(exported));
+    decipher.setAuthTag(Buffer.from(exported.tag, 'base64'));
+    pepperBytes = new Uint8Array(Buffer.concat([decipher.update(Buffer.from(exported.ciphertext, 'base64')), decipher.final()]));
+  } catch {
+    throw new Error('Could not decrypt the pepper export (wrong passphrase or identity, or the file was modified)');
+  }
+
+  if (pepperIdFor(pepperBytes) !== exported.pepperId) throw new Error('Decrypted pepper does not match the export pepper ID');
+  return pepperBytes;
+}
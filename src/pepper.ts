@@ -1,57 +1,236 @@
-import { chmod, mkdir, readFile, writeFile } from 'node:fs/promises';
-import { dirname, join } from 'node:path';
+import { execFile } from 'node:child_process';
+import { createReadStream } from 'node:fs';
+import { chmod, mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
 import { randomBytes } from 'node:crypto';
+import { promisify } from 'node:util';
+import { estimateEntropyBits } from './audit.js';
+import { writeTextFileAtomic } from './dotenv/io.js';
+import { pepperIdFor, readPepperKeyring, writePepperKeyring, PEPPER_KEYRING_VERSION, type PepperKeyringEntry } from './keyring.js';
+
+const execFileAsync = promisify(execFile);
+
+/** How pepper text is turned into bytes; see `decodePepper()`. */
+export type PepperEncoding = 'base64' | 'hex' | 'raw';
+
+/**
+ * A pepper from outside the env/keyring/file chain, such as a secret manager CLI or a descriptor opened by the
+ * caller (`0` is stdin). It takes precedence over every other source and is read once per process: a later rotation
+ * is only seen after a restart. A failed read is not cached, so the next resolution runs the command again.
+ */
+export type PepperProvider =
+  | { type: 'command'; command: string; args?: readonly string[]; timeoutMs?: number }
+  | { type: 'fd'; fd: number };
 
 export type PepperOptions = {
+  provider?: PepperProvider;
   envVarNames?: string[];
+  /** Defaults to the project pepper, see `projectPepperFilePath()`. */
   pepperFilePath?: string;
+  /** Where the project pepper search starts (default: `process.cwd()`). */
+  cwd?: string;
+  /** Defaults to `keyring.json` next to the pepper file. */
+  keyringFilePath?: string;
   createIfMissing?: boolean;
+  /** Time used to decide which retired keyring peppers are still accepted (default: now). */
+  now?: Date;
+};
+
+/** A retired keyring pepper still inside its grace window. */
+export type RetiredPepper = {
+  pepperId: string;
+  pepperBytes: Uint8Array;
+  acceptUntil: string;
 };
 
 export type PepperResult = {
   pepperBytes: Uint8Array;
-  source: 'env' | 'file';
+  pepperId: string;
+  source: 'env' | 'file' | 'keyring' | 'command' | 'fd';
+  /** The file the pepper was read from (the keyring for `keyring`). */
   pepperFilePath?: string;
+  /** The variable the pepper was read from, for `env`. */
+  envVarName?: string;
+  /** Older peppers whose fingerprints are still accepted; only a keyring has these. */
+  retired: RetiredPepper[];
 };
 
-function defaultPepperFilePath(): string {
-  return join(process.cwd(), '.envsitter', 'pepper');
+export const DEFAULT_PEPPER_GRACE_DAYS = 30;
+
+export const MIN_PEPPER_BYTES = 16;
+const MIN_PEPPER_ENTROPY_BITS = 48;
+
+/**
+ * Provider output for the life of the process. A descriptor can only be read once, and one CLI run resolves the
+ * pepper for every source, so a secret-manager command would otherwise run many times. Failures are evicted.
+ */
+const providerTexts = new Map<string, Promise<string>>();
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
-function getPepperFromEnv(envVarNames: string[]): string | undefined {
+/**
+ * The project's `.envsitter/pepper`. Inside a git repository this is the closest directory from `cwd` up to the
+ * repository root that already has a pepper or keyring, otherwise the repository root; outside one it is `cwd`.
+ */
+export async function projectPepperFilePath(cwd: string = process.cwd()): Promise<string> {
+  const start = resolve(cwd);
+  const dirs: string[] = [];
+  for (let dir = start; ; dir = dirname(dir)) {
+    dirs.push(dir);
+    if (await exists(join(dir, '.git'))) break;
+    if (dirname(dir) === dir) return join(start, '.envsitter', 'pepper');
+  }
+
+  for (const dir of dirs) {
+    if ((await exists(join(dir, '.envsitter', 'pepper'))) || (await exists(join(dir, '.envsitter', 'keyring.json')))) {
+      return join(dir, '.envsitter', 'pepper');
+    }
+  }
+  return join(dirs[dirs.length - 1] ?? start, '.envsitter', 'pepper');
+}
+
+async function pepperPathsFor(options: { pepperFilePath?: string; keyringFilePath?: string; cwd?: string }): Promise<{ pepperFilePath: string; keyringFilePath: string }> {
+  const pepperFilePath = options.pepperFilePath ?? (await projectPepperFilePath(options.cwd));
+  return { pepperFilePath, keyringFilePath: options.keyringFilePath ?? join(dirname(pepperFilePath), 'keyring.json') };
+}
+
+function getPepperFromEnv(envVarNames: string[]): { name: string; value: string } | undefined {
   for (const name of envVarNames) {
     const value = process.env[name];
-    if (value && value.length > 0) return value;
+    if (value && value.length > 0) return { name, value };
   }
   return undefined;
 }
 
-function parsePepperFileContentToBytes(content: string): Uint8Array {
+async function readFd(fd: number): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of createReadStream('', { fd, autoClose: false })) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function runPepperCommand(provider: Extract<PepperProvider, { type: 'command' }>): Promise<string> {
+  const { stdout } = await execFileAsync(provider.command, [...(provider.args ?? [])], { timeout: provider.timeoutMs ?? 30_000 });
+  return stdout;
+}
+
+function readProviderText(provider: PepperProvider): Promise<string> {
+  const cacheKey = JSON.stringify(provider.type === 'fd' ? ['fd', provider.fd] : ['command', provider.command, provider.args ?? []]);
+  let text = providerTexts.get(cacheKey);
+  if (!text) {
+    text = (provider.type === 'fd' ? readFd(provider.fd) : runPepperCommand(provider)).then((out) => out.replace(/\r?\n$/, ''));
+    providerTexts.set(cacheKey, text);
+    text.catch(() => providerTexts.delete(cacheKey));
+  }
+  return text;
+}
+
+/**
+ * Pepper text to bytes. A `base64:`, `hex:` or `raw:` prefix picks the encoding; without one `defaultEncoding`
+ * applies (`raw` for the environment, commands and descriptors, `base64` for pepper files). `raw` is UTF-8.
+ */
+export function decodePepper(text: string, defaultEncoding: PepperEncoding): Uint8Array {
+  const prefix = /^(base64|hex|raw):/.exec(text);
+  const encoding = (prefix?.[1] as PepperEncoding | undefined) ?? defaultEncoding;
+  const body = prefix ? text.slice(prefix[0].length) : text;
+
+  if (encoding === 'raw') return new TextEncoder().encode(body);
+  const trimmed = body.trim();
+  if (encoding === 'hex') {
+    if (!/^(?:[0-9a-fA-F]{2})+$/.test(trimmed)) throw new Error('Pepper is not valid hex');
+    return new Uint8Array(Buffer.from(trimmed, 'hex'));
+  }
+  if (!/^[A-Za-z0-9+/_-]+={0,2}$/.test(trimmed)) throw new Error('Pepper is not valid base64');
+  return new Uint8Array(Buffer.from(trimmed, 'base64'));
+}
+
+/** `decodePepper()` plus `checkPepperStrength()`, with errors naming where the pepper came from. */
+function decodeCheckedPepper(label: string, text: string, defaultEncoding: PepperEncoding): Uint8Array {
+  try {
+    const pepperBytes = decodePepper(text, defaultEncoding);
+    checkPepperStrength(pepperBytes);
+    return pepperBytes;
+  } catch (error) {
+    throw new Error(`${label}: ${(error as Error).message}`);
+  }
+}
+
+function parsePepperFileContentToBytes(content: string, filePath: string): Uint8Array {
   const trimmed = content.trim();
-  if (!trimmed) throw new Error('Pepper file is empty');
-  const decoded = Buffer.from(trimmed, 'base64');
-  if (decoded.length < 16) throw new Error('Pepper file content is too short');
-  return new Uint8Array(decoded);
+  if (!trimmed) throw new Error(`Pepper file ${filePath} is empty`);
+  return decodeCheckedPepper(`Pepper file ${filePath}`, trimmed, 'base64');
 }
 
+function entryBytes(entry: PepperKeyringEntry): Uint8Array {
+  return new Uint8Array(Buffer.from(entry.pepper, 'base64'));
+}
+
+/** Throws when a pepper is shorter than 16 bytes or its bytes are too repetitive to be random (under ~48 bits). */
+export function checkPepperStrength(pepperBytes: Uint8Array): void {
+  if (pepperBytes.length < MIN_PEPPER_BYTES) throw new Error(`Pepper is too short (${pepperBytes.length} bytes; at least ${MIN_PEPPER_BYTES} required)`);
+  if (estimateEntropyBits(Buffer.from(pepperBytes).toString('latin1')) < MIN_PEPPER_ENTROPY_BITS) throw new Error('Pepper is too predictable');
+}
+
+/** The active pepper first, then retired peppers still accepted: every pepper a stored fingerprint may have used. */
+export function acceptedPeppers(pepper: PepperResult): Array<{ pepperId: string; pepperBytes: Uint8Array }> {
+  return [{ pepperId: pepper.pepperId, pepperBytes: pepper.pepperBytes }, ...pepper.retired];
+}
+
+/**
+ * Resolution order: `provider`, then the environment (`ENVSITTER_PEPPER`), then the keyring, then the pepper file
+ * (created when missing unless `createIfMissing` is false). Every source goes through the same strength check.
+ */
 export async function resolvePepper(options: PepperOptions = {}): Promise<PepperResult> {
+  const { provider } = options;
+  if (provider) {
+    const label = provider.type === 'command' ? `Pepper command ${provider.command}` : `Pepper fd ${provider.fd}`;
+    const pepperBytes = decodeCheckedPepper(label, await readProviderText(provider), 'raw');
+    return { pepperBytes, pepperId: pepperIdFor(pepperBytes), source: provider.type, retired: [] };
+  }
+
   const envVarNames = options.envVarNames ?? ['ENVSITTER_PEPPER', 'ENV_SITTER_PEPPER'];
   const pepperFromEnv = getPepperFromEnv(envVarNames);
   if (pepperFromEnv !== undefined) {
-    return {
-      pepperBytes: new TextEncoder().encode(pepperFromEnv),
-      source: 'env'
-    };
+    const pepperBytes = decodeCheckedPepper(pepperFromEnv.name, pepperFromEnv.value, 'raw');
+    return { pepperBytes, pepperId: pepperIdFor(pepperBytes), source: 'env', envVarName: pepperFromEnv.name, retired: [] };
+  }
+
+  const { pepperFilePath, keyringFilePath } = await pepperPathsFor(options);
+  const keyring = await readPepperKeyring(keyringFilePath);
+  if (keyring) {
+    const now = (options.now ?? new Date()).getTime();
+    const active = keyring.peppers.find((p) => p.id === keyring.active);
+    if (!active) throw new Error(`Keyring ${keyringFilePath}: active pepper id ${keyring.active} not found in keyring`);
+    const pepperBytes = entryBytes(active);
+    try {
+      checkPepperStrength(pepperBytes);
+    } catch (error) {
+      throw new Error(`Keyring ${keyringFilePath}: ${(error as Error).message}`);
+    }
+    const retired = keyring.peppers
+      .flatMap((p) =>
+        p.id !== keyring.active && p.acceptUntil !== undefined && Date.parse(p.acceptUntil) > now
+          ? [{ pepperId: p.id, pepperBytes: entryBytes(p), acceptUntil: p.acceptUntil }]
+          : []
+      );
+    return { pepperBytes, pepperId: active.id, source: 'keyring', pepperFilePath: keyringFilePath, retired };
   }
 
-  const pepperFilePath = options.pepperFilePath ?? defaultPepperFilePath();
   const createIfMissing = options.createIfMissing ?? true;
 
+  let content: string;
   try {
-    const content = await readFile(pepperFilePath, 'utf8');
-    return { pepperBytes: parsePepperFileContentToBytes(content), source: 'file', pepperFilePath };
+    content = await readFile(pepperFilePath, 'utf8');
   } catch (error) {
-    if (!createIfMissing) throw error;
+    if (!createIfMissing || (error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
 
     const dir = dirname(pepperFilePath);
     await mkdir(dir, { recursive: true });
@@ -67,6 +246,132 @@ export async function resolvePepper(options: PepperOptions = {}): Promise<Pepper
       }
     }
 
-    return { pepperBytes: new Uint8Array(pepper), source: 'file', pepperFilePath };
+    const pepperBytes = new Uint8Array(pepper);
+    return { pepperBytes, pepperId: pepperIdFor(pepperBytes), source: 'file', pepperFilePath, retired: [] };
+  }
+
+  const pepperBytes = parsePepperFileContentToBytes(content, pepperFilePath);
+  return { pepperBytes, pepperId: pepperIdFor(pepperBytes), source: 'file', pepperFilePath, retired: [] };
+}
+
+export type RotatePepperOptions = {
+  pepperFilePath?: string;
+  keyringFilePath?: string;
+  cwd?: string;
+  /** How long fingerprints made with the outgoing pepper stay accepted (default 30 days). */
+  graceDays?: number;
+  now?: Date;
+};
+
+export type RotatePepperResult = {
+  keyringFilePath: string;
+  pepperFilePath: string;
+  activePepperId: string;
+  /** The pepper that was active before, absent when there was none. */
+  retiredPepperId?: string;
+  acceptUntil?: string;
+  /** Retired peppers whose grace window had ended; they are removed from the keyring. */
+  droppedPepperIds: string[];
+};
+
+/**
+ * Makes a fresh pepper active. The outgoing one (from the keyring, or the plain pepper file on first rotation)
+ * is retired with a grace window, expired peppers are dropped, and the pepper file is rewritten with the new
+ * active pepper so tools that only read the file keep working.
+ */
+export async function rotatePepper(options: RotatePepperOptions = {}): Promise<RotatePepperResult> {
+  const now = options.now ?? new Date();
+  const graceDays = options.graceDays ?? DEFAULT_PEPPER_GRACE_DAYS;
+  const { pepperFilePath, keyringFilePath } = await pepperPathsFor(options);
+
+  let peppers: PepperKeyringEntry[] = [];
+  let previousId: string | undefined;
+  const keyring = await readPepperKeyring(keyringFilePath);
+  if (keyring) {
+    peppers = keyring.peppers;
+    previousId = keyring.active;
+  } else {
+    let content: string | undefined;
+    try {
+      content = await readFile(pepperFilePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    if (content !== undefined) {
+      const bytes = parsePepperFileContentToBytes(content, pepperFilePath);
+      previousId = pepperIdFor(bytes);
+      peppers = [{ id: previousId, pepper: Buffer.from(bytes).toString('base64'), createdAt: now.toISOString() }];
+    }
+  }
+
+  const acceptUntil = new Date(now.getTime() + graceDays * 86_400_000).toISOString();
+  const droppedPepperIds: string[] = [];
+  const kept: PepperKeyringEntry[] = [];
+  for (const entry of peppers) {
+    if (entry.id === previousId) kept.push({ ...entry, retiredAt: now.toISOString(), acceptUntil });
+    else if (entry.acceptUntil !== undefined && Date.parse(entry.acceptUntil) > now.getTime()) kept.push(entry);
+    else droppedPepperIds.push(entry.id);
+  }
+
+  const fresh = randomBytes(32);
+  const activePepperId = pepperIdFor(fresh);
+  kept.unshift({ id: activePepperId, pepper: fresh.toString('base64'), createdAt: now.toISOString() });
+
+  await writePepperKeyring(keyringFilePath, { version: PEPPER_KEYRING_VERSION, active: activePepperId, peppers: kept });
+  await mkdir(dirname(pepperFilePath), { recursive: true });
+  await writeTextFileAtomic(pepperFilePath, fresh.toString('base64'), 0o600);
+
+  return {
+    keyringFilePath,
+    pepperFilePath,
+    activePepperId,
+    ...(previousId !== undefined ? { retiredPepperId: previousId, acceptUntil } : {}),
+    droppedPepperIds
+  };
+}
+
+export type ImportPepperOptions = {
+  pepperFilePath?: string;
+  keyringFilePath?: string;
+  cwd?: string;
+  /** Replace a different pepper already in the pepper file. */
+  force?: boolean;
+};
+
+export type ImportPepperResult = {
+  pepperFilePath: string;
+  pepperId: string;
+  /** The pepper file already held this pepper. */
+  unchanged: boolean;
+  /** The pepper that `force` replaced. */
+  replacedPepperId?: string;
+};
+
+/**
+ * Installs a pepper received from a teammate (see `unwrapPepperExport()`) as the pepper file, mode `0600`. Refuses
+ * weak peppers, a keyring (it would shadow the file) and, without `force`, replacing a different pepper.
+ */
+export async function importPepper(pepperBytes: Uint8Array, options: ImportPepperOptions = {}): Promise<ImportPepperResult> {
+  checkPepperStrength(pepperBytes);
+  const { pepperFilePath, keyringFilePath } = await pepperPathsFor(options);
+  const pepperId = pepperIdFor(pepperBytes);
+
+  if (await readPepperKeyring(keyringFilePath)) {
+    throw new Error(`A pepper keyring exists at ${keyringFilePath} and would take precedence; import into another --pepper-file`);
+  }
+
+  let existingId: string | undefined;
+  try {
+    existingId = pepperIdFor(parsePepperFileContentToBytes(await readFile(pepperFilePath, 'utf8'), pepperFilePath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT' && !options.force) throw error;
   }
+  if (existingId === pepperId) return { pepperFilePath, pepperId, unchanged: true };
+  if (existingId !== undefined && !options.force) {
+    throw new Error(`${pepperFilePath} holds a different pepper (${existingId}); pass --force to replace it`);
+  }
+
+  await mkdir(dirname(pepperFilePath), { recursive: true });
+  await writeTextFileAtomic(pepperFilePath, Buffer.from(pepperBytes).toString('base64'), 0o600);
+  return { pepperFilePath, pepperId, unchanged: false, ...(existingId !== undefined ? { replacedPepperId: existingId } : {}) };
 }
@@ -0,0 +1,297 @@
+import { readFile } from 'node:fs/promises';
+import { isBooleanLike, isNumberLike } from './value-shapes.js';
+
+export const ENV_SCHEMA_TYPES = ['string', 'url', 'port', 'int', 'number', 'bool', 'enum', 'email', 'uuid', 'duration', 'json'] as const;
+
+export type EnvSchemaType = (typeof ENV_SCHEMA_TYPES)[number];
+
+export type EnvSchemaKey = {
+  /** Defaults to `true`. */
+  required?: boolean;
+  type?: EnvSchemaType;
+  /** Regular expression source, tested against the whole value. */
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  /** Allowed values; required for `type: "enum"`. */
+  values?: string[];
+  description?: string;
+};
+
+export type EnvSchema = {
+  version: 1;
+  /** When `false` (default), keys not declared in the schema fail with `unknown_key`. */
+  allowUnknown?: boolean;
+  keys: Record<string, EnvSchemaKey>;
+};
+
+export type EnvSchemaReason =
+  | 'ok'
+  | 'optional_missing'
+  | 'missing'
+  | 'empty'
+  | 'invalid_type'
+  | 'pattern_mismatch'
+  | 'too_short'
+  | 'too_long'
+  | 'not_allowed'
+  | 'unknown_key';
+
+export type EnvSchemaKeyResult = {
+  key: string;
+  ok: boolean;
+  reason: EnvSchemaReason;
+};
+
+export type EnvSchemaCheckResult = {
+  ok: boolean;
+  results: EnvSchemaKeyResult[];
+};
+
+export const DEFAULT_SCHEMA_FILE = 'envsitter.schema.json';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSchemaType(value: unknown): value is EnvSchemaType {
+  return typeof value === 'string' && (ENV_SCHEMA_TYPES as readonly string[]).includes(value);
+}
+
+function parseSchemaKey(key: string, raw: unknown): EnvSchemaKey {
+  if (!isRecord(raw)) throw new Error(`Schema key ${key} must be an object`);
+
+  const out: EnvSchemaKey = {};
+  if (raw.required !== undefined) {
+    if (typeof raw.required !== 'boolean') throw new Error(`Schema key ${key}: required must be a boolean`);
+    out.required = raw.required;
+  }
+  if (raw.type !== undefined) {
+    if (!isSchemaType(raw.type)) throw new Error(`Schema key ${key}: type must be one of ${ENV_SCHEMA_TYPES.join(', ')}`);
+    out.type = raw.type;
+  }
+  if (raw.pattern !== undefined) {
+    if (typeof raw.pattern !== 'string') throw new Error(`Schema key ${key}: pattern must be a string`);
+    try {
+      new RegExp(raw.pattern);
+    } catch {
+      throw new Error(`Schema key ${key}: pattern is not a valid regular expression`);
+    }
+    out.pattern = raw.pattern;
+  }
+  for (const bound of ['minLength', 'maxLength'] as const) {
+    const value = raw[bound];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) throw new Error(`Schema key ${key}: ${bound} must be a non-negative integer`);
+    out[bound] = value;
+  }
+  if (raw.values !== undefined) {
+    if (!Array.isArray(raw.values) || !raw.values.every((v) => typeof v === 'string')) throw new Error(`Schema key ${key}: values must be an array of strings`);
+    out.values = [...(raw.values as string[])];
+  }
+  if (out.type === 'enum' && !out.values) throw new Error(`Schema key ${key}: type enum requires values`);
+  if (raw.description !== undefined) {
+    if (typeof raw.description !== 'string') throw new Error(`Schema key ${key}: description must be a string`);
+    out.description = raw.description;
+  }
+  return out;
+}
+
+export function parseEnvSchema(raw: unknown): EnvSchema {
+  if (!isRecord(raw)) throw new Error('Schema must be a JSON object');
+  if (raw.version !== 1) throw new Error('Unsupported schema version (expected 1)');
+  if (!isRecord(raw.keys)) throw new Error('Schema keys must be an object');
+  if (raw.allowUnknown !== undefined && typeof raw.allowUnknown !== 'boolean') throw new Error('Schema allowUnknown must be a boolean');
+
+  const keys: Record<string, EnvSchemaKey> = {};
+  for (const [key, spec] of Object.entries(raw.keys)) keys[key] = parseSchemaKey(key, spec);
+
+  return { version: 1, ...(raw.allowUnknown !== undefined ? { allowUnknown: raw.allowUnknown } : {}), keys };
+}
+
+export async function readEnvSchemaFile(filePath: string): Promise<EnvSchema> {
+  const contents = await readFile(filePath, 'utf8');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch {
+    throw new Error(`Schema file is not valid JSON: ${filePath}`);
+  }
+  return parseEnvSchema(parsed);
+}
+
+export function stringifyEnvSchema(schema: EnvSchema): string {
+  return `${JSON.stringify(schema, null, 2)}\n`;
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DURATION = /^(?:\d+(?:\.\d+)?(?:ms|s|m|h|d|w))+$/;
+const ISO_DURATION = /^P(?!$)(?:\d+Y)?(?:\d+M)?(?:\d+W)?(?:\d+D)?(?:T(?=\d)(?:\d+H)?(?:\d+M)?(?:\d+(?:\.\d+)?S)?)?$/;
+
+export function matchesSchemaType(value: string, type: EnvSchemaType): boolean {
+  if (type === 'string' || type === 'enum') return true;
+  if (type === 'number') return isNumberLike(value);
+  if (type === 'bool') return isBooleanLike(value);
+  if (type === 'int') return /^[+-]?\d+$/.test(value.trim());
+  if (type === 'port') {
+    if (!/^\d+$/.test(value.trim())) return false;
+    const port = Number(value.trim());
+    return port >= 1 && port <= 65535;
+  }
+  if (type === 'url') {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  if (type === 'email') return EMAIL.test(value);
+  if (type === 'uuid') return UUID.test(value);
+  if (type === 'duration') return DURATION.test(value) || ISO_DURATION.test(value);
+  if (type === 'json') {
+    try {
+      JSON.parse(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  const neverType: never = type;
+  throw new Error(`Unhandled schema type: ${String(neverType)}`);
+}
+
+function checkValue(value: string, spec: EnvSchemaKey): EnvSchemaReason {
+  const required = spec.required !== false;
+  if (value.length === 0) return required ? 'empty' : 'ok';
+
+  if (spec.type && !matchesSchemaType(value, spec.type)) return 'invalid_type';
+  if (spec.values && !spec.values.includes(value)) return 'not_allowed';
+  if (spec.minLength !== undefined && value.length < spec.minLength) return 'too_short';
+  if (spec.maxLength !== undefined && value.length > spec.maxLength) return 'too_long';
+  if (spec.pattern !== undefined && !new RegExp(`^(?:${spec.pattern})$`).test(value)) return 'pattern_mismatch';
+  return 'ok';
+}
+
+/** Evaluates the schema in-process. Results carry key names and reason codes only, never values. */
+export function checkEnvSchema(values: ReadonlyMap<string, string>, schema: EnvSchema): EnvSchemaCheckResult {
+  const results: EnvSchemaKeyResult[] = [];
+
+  for (const [key, spec] of Object.entries(schema.keys)) {
+    const value = values.get(key);
+    if (value === undefined) {
+      const required = spec.required !== false;
+      results.push({ key, ok: !required, reason: required ? 'missing' : 'optional_missing' });
+      continue;
+    }
+
+    const reason = checkValue(value, spec);
+    results.push({ key, ok: reason === 'ok', reason });
+  }
+
+  for (const key of values.keys()) {
+    if (Object.prototype.hasOwnProperty.call(schema.keys, key)) continue;
+    results.push({ key, ok: schema.allowUnknown === true, reason: 'unknown_key' });
+  }
+
+  results.sort((a, b) => a.key.localeCompare(b.key));
+  return { ok: results.every((r) => r.ok), results };
+}
+
+export type InferEnvSchemaOptions = {
+  /** Existing schema to merge into. Declared keys are kept as-is; only undeclared keys are added. */
+  existing?: EnvSchema;
+  /**
+   * Infer `enum` for keys with a small vocabulary of short identifier-like values.
+   * Off by default because the allowed values are written to the schema.
+   */
+  enums?: boolean;
+};
+
+export type InferEnvSchemaResult = {
+  schema: EnvSchema;
+  /** Keys added to the schema, sorted. */
+  added: string[];
+  /** Keys already declared in the existing schema. */
+  kept: string[];
+};
+
+const MAX_ENUM_VALUES = 5;
+const ENUM_VALUE = /^[a-z][a-z0-9_-]{0,15}$/;
+const SECRET_KEY_NAME = /(SECRET|TOKEN|PASSWORD|PASSWD|PWD|PRIVATE|CREDENTIAL|API_?KEY|AUTH|SALT|DSN)/i;
+const PORT_KEY_NAME = /(^|_)PORT$/i;
+
+function looksLikeSchemaUrl(value: string): boolean {
+  return /^[A-Za-z][A-Za-z0-9+.-]*:\/\//.test(value) && matchesSchemaType(value, 'url');
+}
+
+function inferType(key: string, values: readonly string[]): EnvSchemaType | undefined {
+  if (values.length === 0) return undefined;
+  const all = (test: (value: string) => boolean) => values.every(test);
+
+  if (all(isBooleanLike)) return 'bool';
+  if (PORT_KEY_NAME.test(key) && all((v) => matchesSchemaType(v, 'port'))) return 'port';
+  if (all((v) => matchesSchemaType(v, 'int'))) return 'int';
+  if (all(isNumberLike)) return 'number';
+  if (all(looksLikeSchemaUrl)) return 'url';
+  if (all((v) => matchesSchemaType(v, 'uuid'))) return 'uuid';
+  if (all((v) => matchesSchemaType(v, 'email'))) return 'email';
+  if (all((v) => DURATION.test(v))) return 'duration';
+  if (all((v) => /^[[{]/.test(v.trim()) && matchesSchemaType(v, 'json'))) return 'json';
+  return undefined;
+}
+
+function inferEnumValues(key: string, values: readonly string[], fileCount: number): string[] | undefined {
+  if (fileCount < 2 || SECRET_KEY_NAME.test(key)) return undefined;
+  if (values.length === 0 || !values.every((v) => ENUM_VALUE.test(v))) return undefined;
+
+  const distinct = [...new Set(values)].sort();
+  if (distinct.length < 2 || distinct.length > MAX_ENUM_VALUES) return undefined;
+  return distinct;
+}
+
+/**
+ * Proposes a schema from the values of one or more env files. Keys with a non-empty value in every file
+ * are required. Types come from the value shapes (bool, port, int, number, url, uuid, email, duration, json);
+ * the schema never contains values unless `enums` is enabled.
+ */
+export function inferEnvSchema(files: ReadonlyArray<ReadonlyMap<string, string>>, options: InferEnvSchemaOptions = {}): InferEnvSchemaResult {
+  const existingKeys = options.existing?.keys ?? {};
+  const keys: Record<string, EnvSchemaKey> = { ...existingKeys };
+  const kept = Object.keys(existingKeys).sort();
+
+  const allKeys = new Set<string>();
+  for (const values of files) for (const key of values.keys()) allKeys.add(key);
+
+  const added: string[] = [];
+  for (const key of [...allKeys].sort()) {
+    if (Object.prototype.hasOwnProperty.call(existingKeys, key)) continue;
+
+    const observed: string[] = [];
+    let required = true;
+    for (const values of files) {
+      const value = values.get(key);
+      if (value === undefined || value.length === 0) required = false;
+      else observed.push(value);
+    }
+
+    const enumValues = options.enums ? inferEnumValues(key, observed, files.length) : undefined;
+    const type = enumValues ? 'enum' : inferType(key, observed);
+
+    keys[key] = {
+      ...(required ? {} : { required: false }),
+      ...(type ? { type } : {}),
+      ...(enumValues ? { values: enumValues } : {})
+    };
+    added.push(key);
+  }
+
+  const schema: EnvSchema = {
+    version: 1,
+    ...(options.existing?.allowUnknown !== undefined ? { allowUnknown: options.existing.allowUnknown } : {}),
+    keys
+  };
+  return { schema, added, kept };
+}
@@ -1,12 +1,17 @@
 import { readFile } from 'node:fs/promises';
-import { parseDotenv } from '../dotenv/parse.js';
+import type { DotenvDialect } from '../dotenv/dialect.js';
+import { expandSourceValues, type DotenvExpandOptions } from '../dotenv/expand.js';
+import { parseDotenv, type DotenvAssignmentSyntax } from '../dotenv/parse.js';
 
 export type DotenvFileSourceOptions = {
   allowErrors?: boolean;
+  expand?: boolean | DotenvExpandOptions;
+  dialect?: DotenvDialect;
 };
 
 type Snapshot = {
   values: ReadonlyMap<string, string>;
+  syntax: ReadonlyMap<string, DotenvAssignmentSyntax>;
 };
 
 export class DotenvFileSource {
@@ -20,13 +25,13 @@ export class DotenvFileSource {
 
   async load(): Promise<Snapshot> {
     const contents = await readFile(this.filePath, 'utf8');
-    const parsed = parseDotenv(contents);
+    const parsed = parseDotenv(contents, this.options.dialect ? { dialect: this.options.dialect } : {});
 
     if (parsed.errors.length > 0 && !this.options.allowErrors) {
       const message = parsed.errors.map((e) => `L${e.line}: ${e.message}`).join(', ');
       throw new Error(`Invalid dotenv file: ${message}`);
     }
 
-    return { values: parsed.values };
+    return { values: expandSourceValues(parsed, this.options.expand, this.options.allowErrors), syntax: parsed.syntax };
   }
 }
@@ -0,0 +1,97 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { DotenvDialect } from '../dotenv/dialect.js';
+import { expandSourceValues, type DotenvExpandOptions } from '../dotenv/expand.js';
+import { parseDotenv, type DotenvAssignmentSyntax } from '../dotenv/parse.js';
+
+export type DotenvLayerLocation = {
+  file: string;
+  line: number;
+};
+
+export type DotenvKeyProvenance = DotenvLayerLocation & {
+  shadows: DotenvLayerLocation[];
+};
+
+export type DotenvLayersSourceOptions = {
+  allowErrors?: boolean;
+  expand?: boolean | DotenvExpandOptions;
+  dialect?: DotenvDialect;
+  allowMissing?: boolean;
+};
+
+type Snapshot = {
+  values: ReadonlyMap<string, string>;
+  provenance: ReadonlyMap<string, DotenvKeyProvenance>;
+  syntax: ReadonlyMap<string, DotenvAssignmentSyntax>;
+};
+
+/**
+ * Returns the conventional layer stack for a mode, lowest precedence first:
+ * `.env`, `.env.local`, `.env.<mode>`, `.env.<mode>.local`.
+ */
+export function dotenvLayerFilePaths(mode: string, dir = '.'): string[] {
+  return ['.env', '.env.local', `.env.${mode}`, `.env.${mode}.local`].map((name) => join(dir, name));
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && (error as { code?: string }).code === 'ENOENT';
+}
+
+export class DotenvLayersSource {
+  readonly filePaths: readonly string[];
+  readonly options: DotenvLayersSourceOptions;
+
+  /** `filePaths` are ordered lowest precedence first; later files override earlier ones. */
+  constructor(filePaths: readonly string[], options: DotenvLayersSourceOptions = {}) {
+    this.filePaths = filePaths;
+    this.options = options;
+  }
+
+  async load(): Promise<Snapshot> {
+    const values = new Map<string, string>();
+    const provenance = new Map<string, DotenvKeyProvenance>();
+    const syntax = new Map<string, DotenvAssignmentSyntax>();
+    const templates = new Map<string, string>();
+
+    let loadedAny = false;
+    for (const filePath of this.filePaths) {
+      let contents: string;
+      try {
+        contents = await readFile(filePath, 'utf8');
+      } catch (error: unknown) {
+        if (this.options.allowMissing && isMissingFileError(error)) continue;
+        throw error;
+      }
+      loadedAny = true;
+
+      const parsed = parseDotenv(contents, this.options.dialect ? { dialect: this.options.dialect } : {});
+      if (parsed.errors.length > 0 && !this.options.allowErrors) {
+        const message = parsed.errors.map((e) => `L${e.line}: ${e.message}`).join(', ');
+        throw new Error(`Invalid dotenv file ${filePath}: ${message}`);
+      }
+
+      for (const [key, value] of parsed.values) {
+        const lines = parsed.lines.get(key) ?? [];
+        const winningLine = lines.at(-1) ?? 0;
+
+        const shadows: DotenvLayerLocation[] = lines
+          .slice(0, -1)
+          .reverse()
+          .map((line) => ({ file: filePath, line }));
+        const previous = provenance.get(key);
+        if (previous) shadows.push({ file: previous.file, line: previous.line }, ...previous.shadows);
+
+        values.set(key, value);
+        templates.set(key, parsed.templates.get(key) ?? value);
+        provenance.set(key, { file: filePath, line: winningLine, shadows });
+        const written = parsed.syntax.get(key);
+        if (written) syntax.set(key, written);
+      }
+    }
+
+    if (!loadedAny) throw new Error(`No dotenv layers found: ${this.filePaths.join(', ')}`);
+
+    return { values: expandSourceValues({ values, templates }, this.options.expand, this.options.allowErrors), provenance, syntax };
+  }
+}
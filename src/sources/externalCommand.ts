@@ -1,5 +1,7 @@
 import { execFile } from 'node:child_process';
 import { promisify } from 'node:util';
+import type { DotenvDialect } from '../dotenv/dialect.js';
+import { expandSourceValues, type DotenvExpandOptions } from '../dotenv/expand.js';
 import { parseDotenv } from '../dotenv/parse.js';
 
 const execFileAsync = promisify(execFile);
@@ -13,6 +15,8 @@ export type ExternalCommandSourceOptions = {
   env?: NodeJS.ProcessEnv;
   timeoutMs?: number;
   allowErrors?: boolean;
+  expand?: boolean | DotenvExpandOptions;
+  dialect?: DotenvDialect;
 };
 
 export class ExternalCommandSource {
@@ -33,13 +37,13 @@ export class ExternalCommandSource {
       timeout: this.options.timeoutMs
     });
 
-    const parsed = parseDotenv(stdout);
+    const parsed = parseDotenv(stdout, this.options.dialect ? { dialect: this.options.dialect } : {});
 
     if (parsed.errors.length > 0 && !this.options.allowErrors) {
       const message = parsed.errors.map((e) => `L${e.line}: ${e.message}`).join(', ');
       throw new Error(`Invalid dotenv content from external command: ${message}`);
     }
 
-    return { values: parsed.values };
+    return { values: expandSourceValues(parsed, this.options.expand, this.options.allowErrors) };
   }
 }
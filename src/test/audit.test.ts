@@ -0,0 +1,65 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { auditValue, auditValues, estimateEntropyBits, isSecretKeyName } from '../audit.js';
+
+test('isSecretKeyName recognizes secret-looking key names', () => {
+  for (const key of ['JWT_SECRET', 'GITHUB_TOKEN', 'STRIPE_KEY', 'DB_PASSWORD', 'SMTP_PASSWD', 'SECRET_KEY_BASE', 'PRIVATE_KEY_PATH']) {
+    assert.equal(isSecretKeyName(key), true, key);
+  }
+  for (const key of ['PORT', 'DATABASE_URL', 'KEYBOARD_LAYOUT', 'LOG_LEVEL']) {
+    assert.equal(isSecretKeyName(key), false, key);
+  }
+});
+
+test('auditValue reports weaknesses, metrics and classes without the value', () => {
+  assert.deepEqual(auditValue('JWT_SECRET', 'changeme'), {
+    key: 'JWT_SECRET',
+    secretName: true,
+    lengthBucket: '8-15',
+    entropyBits: estimateEntropyBits('changeme'),
+    charClasses: ['lower'],
+    weaknesses: ['placeholder', 'too_short', 'low_entropy', 'single_char_class'],
+    weak: true
+  });
+
+  assert.deepEqual(auditValue('DB_PASSWORD', 'password').weaknesses.slice(0, 1), ['common_value']);
+  assert.ok(auditValue('API_KEY', '<your-key-here>').weaknesses.includes('placeholder'));
+  assert.ok(auditValue('API_KEY', 'xxx').weaknesses.includes('placeholder'));
+  assert.ok(auditValue('API_TOKEN', 'abababababababababab').weaknesses.includes('repeated'));
+  assert.ok(auditValue('API_TOKEN', 'abcdefgh12345678').weaknesses.includes('sequential'));
+  assert.deepEqual(auditValue('API_TOKEN', '').weaknesses, ['empty']);
+
+  const strong = auditValue('API_TOKEN', 'q8Zt-3mWx9LrP2vK7nYc4Hs6Jd1Fg0Ba');
+  assert.deepEqual(strong.weaknesses, []);
+  assert.equal(strong.weak, false);
+  assert.equal(strong.lengthBucket, '32-63');
+  assert.deepEqual(strong.charClasses, ['lower', 'upper', 'digit', 'symbol']);
+  assert.ok(strong.entropyBits > 128);
+
+  const notSecret = auditValue('LOG_LEVEL', 'info');
+  assert.equal(notSecret.weak, false);
+  assert.ok(notSecret.weaknesses.includes('too_short'));
+});
+
+test('auditValues flags only secret-named keys with weak values', () => {
+  const result = auditValues(
+    new Map([
+      ['JWT_SECRET', 'secret'],
+      ['SESSION_SECRET', 'q8Zt-3mWx9LrP2vK7nYc4Hs6Jd1Fg0Ba'],
+      ['PORT', '3000']
+    ])
+  );
+
+  assert.equal(result.ok, false);
+  assert.deepEqual(
+    result.keys.map((k) => [k.key, k.weak]),
+    [
+      ['JWT_SECRET', true],
+      ['PORT', false],
+      ['SESSION_SECRET', false]
+    ]
+  );
+  assert.ok(!JSON.stringify(result).includes('q8Zt'));
+
+  assert.equal(auditValues(new Map([['JWT_SECRET', 'short-but-random-ish']]), { minLength: 8, minEntropyBits: 40, keysFilter: /JWT/ }).ok, true);
+});
@@ -4,7 +4,20 @@ import { mkdtemp, readFile, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 
-import { addEnvFileKey, annotateEnvFile, copyEnvFileKeys, deleteEnvFileKeys, formatEnvFile, isExampleEnvFile, setEnvFileKey, unsetEnvFileKey, validateEnvFile } from '../index.js';
+import {
+  addEnvFileKey,
+  annotateEnvFile,
+  copyEnvFileKeys,
+  deleteEnvFileKeys,
+  diffEnvExampleFile,
+  formatEnvFile,
+  isExampleEnvFile,
+  lintEnvFile,
+  setEnvFileKey,
+  syncEnvExampleFile,
+  unsetEnvFileKey,
+  validateEnvFile
+} from '../index.js';
 
 async function makeTempFile(fileName: string, contents: string): Promise<string> {
   const dir = await mkdtemp(join(tmpdir(), 'envsitter-ops-'));
@@ -169,6 +182,96 @@ test('deleteEnvFileKeys removes keys from file', async () => {
   assert.ok(!contents.includes('C='));
 });
 
+test('set, copy and format treat a multiline assignment as one unit', async () => {
+  const multiline = ['CERT="line1', 'line2', 'line3"'].join('\n');
+  const file = await makeTempFile('.env', ['Z=last', multiline, 'A=first', ''].join('\n'));
+
+  const formatted = await formatEnvFile({ file, mode: 'global', sort: 'alpha', write: true });
+  assert.equal(formatted.wrote, true);
+  assert.equal(await readFile(file, 'utf8'), ['A=first', multiline, 'Z=last', ''].join('\n'));
+
+  const to = await makeTempFile('.env.copy', 'KEEP=1\n');
+  const copied = await copyEnvFileKeys({ from: file, to, keys: ['CERT'], write: true });
+  assert.equal(copied.plan[0]?.fromLine, 2);
+  assert.equal(await readFile(to, 'utf8'), ['KEEP=1', multiline, ''].join('\n'));
+
+  const set = await setEnvFileKey({ file, key: 'CERT', value: 'single', write: true });
+  assert.equal(set.plan.action, 'updated');
+  assert.equal(await readFile(file, 'utf8'), ['A=first', 'CERT=single', 'Z=last', ''].join('\n'));
+
+  const added = await addEnvFileKey({ file: to, key: 'NEXT', value: 'v', write: true });
+  assert.equal(added.plan.line, 5);
+});
+
+test('lintEnvFile reports rule findings without values and honors suppressions', async () => {
+  const file = await makeTempFile(
+    '.env',
+    ['A=1', 'lower=x', 'B = 2', 'C=trailing  ', 'export D=4', 'A=secret', '# envsitter-disable-next-line lowercase-key', 'also_lower=y', '', '# empty section'].join('\n')
+  );
+
+  const result = await lintEnvFile({ file });
+  assert.equal(result.ok, false);
+  assert.deepEqual(
+    result.findings.map((f) => `${f.line}:${f.rule}`),
+    ['1:duplicate-key', '2:lowercase-key', '3:space-around-equals', '4:unquoted-trailing-whitespace', '5:mixed-export', '10:final-newline', '10:empty-section']
+  );
+  assert.ok(result.findings.every((f) => !f.message.includes('secret')));
+
+  const relaxed = await lintEnvFile({ file, rules: { 'duplicate-key': 'warning', 'empty-section': 'off' } });
+  assert.equal(relaxed.ok, true);
+  assert.equal(relaxed.findings.some((f) => f.rule === 'empty-section'), false);
+});
+
+test('lintEnvFile --fix rewrites fixable findings in place', async () => {
+  const file = await makeTempFile('.env', ['A = old', 'B = 2', 'C=trailing  ', 'export D=4', 'A=new'].join('\n'));
+
+  const result = await lintEnvFile({ file, fix: true });
+  assert.equal(result.wrote, true);
+  assert.equal(result.fixed, 5);
+  assert.deepEqual(result.findings, []);
+  assert.equal(await readFile(file, 'utf8'), ['B=2', 'C=trailing', 'D=4', 'A=new', ''].join('\n'));
+});
+
+test('diffEnvExampleFile reports missing and extra keys and example values equal to real ones', async () => {
+  const file = await makeTempFile('.env', ['API_URL=https://api.internal', 'API_KEY=sk-live-123', 'DEBUG=true', 'EMPTY='].join('\n') + '\n');
+  const dir = join(file, '..');
+  const example = join(dir, '.env.example');
+  await writeFile(example, ['API_URL=https://example.com', 'API_KEY=sk-live-123', 'EMPTY=', 'OLD_KEY=x'].join('\n') + '\n', 'utf8');
+
+  const result = await diffEnvExampleFile({ file, example, pepper: { pepperFilePath: join(dir, 'pepper') } });
+  assert.equal(result.ok, false);
+  assert.deepEqual(result.missing, [{ key: 'DEBUG', line: 3 }]);
+  assert.deepEqual(result.extra, [{ key: 'OLD_KEY', line: 4 }]);
+  assert.deepEqual(result.sameAsReal, [{ key: 'API_KEY', line: 2 }]);
+  assert.ok(!JSON.stringify(result).includes('sk-live-123'));
+});
+
+test('syncEnvExampleFile adds missing keys with placeholders and keeps the example layout', async () => {
+  const file = await makeTempFile('.env', ['FIRST=1', 'API_URL=https://api.internal', 'DEBUG=true', 'TOKEN=abc', 'PORT=8080'].join('\n') + '\n');
+  const dir = join(file, '..');
+  const example = join(dir, '.env.example');
+  await writeFile(example, ['# API settings', 'API_URL=', '', '# Server', 'PORT=3000', 'LEGACY=1'].join('\n') + '\n', 'utf8');
+
+  const dryRun = await syncEnvExampleFile({ file, example, pepper: { pepperFilePath: join(dir, 'pepper') } });
+  assert.equal(dryRun.wrote, false);
+  assert.equal(dryRun.hasChanges, true);
+
+  const result = await syncEnvExampleFile({ file, example, write: true, pepper: { pepperFilePath: join(dir, 'pepper') } });
+  assert.equal(result.wrote, true);
+  assert.deepEqual(
+    result.plan.map((p) => `${p.key}:${p.line}`),
+    ['FIRST:1', 'DEBUG:4', 'TOKEN:5']
+  );
+  assert.deepEqual(result.extra, [{ key: 'LEGACY', line: 9 }]);
+  assert.equal(
+    await readFile(example, 'utf8'),
+    ['FIRST=0', '# API settings', 'API_URL=', 'DEBUG=false', 'TOKEN=changeme', '', '# Server', 'PORT=3000', 'LEGACY=1', ''].join('\n')
+  );
+
+  const again = await syncEnvExampleFile({ file, example, write: true, pepper: { pepperFilePath: join(dir, 'pepper') } });
+  assert.equal(again.hasChanges, false);
+});
+
 test('isExampleEnvFile detects example/template files', () => {
   assert.equal(isExampleEnvFile('.env'), false);
   assert.equal(isExampleEnvFile('.env.local'), false);
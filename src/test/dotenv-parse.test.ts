@@ -1,6 +1,9 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
 import { parseDotenv } from '../dotenv/parse.js';
+import { parseDotenvDocument, stringifyDotenvDocument } from '../dotenv/document.js';
+import { quoteValue } from '../dotenv/utils.js';
+import { DOTENV_DIALECTS } from '../dotenv/dialect.js';
 
 test('parseDotenv parses basic assignments and ignores comments', () => {
   const input = [
@@ -38,3 +41,86 @@ test('parseDotenv reports invalid keys', () => {
   assert.ok(parsed.errors.length >= 1);
   assert.equal(parsed.values.get('OK'), 'value2');
 });
+
+test('parseDotenv supports multiline quoted values', () => {
+  const input = [
+    'PEM="-----BEGIN KEY-----',
+    'abc\\"def',
+    '-----END KEY-----"',
+    "SINGLE='one",
+    "two'",
+    'TICK=`a',
+    'b`',
+    'AFTER=ok',
+    ''
+  ].join('\n');
+
+  const parsed = parseDotenv(input);
+  assert.equal(parsed.errors.length, 0);
+  assert.equal(parsed.values.get('PEM'), '-----BEGIN KEY-----\nabc"def\n-----END KEY-----');
+  assert.equal(parsed.values.get('SINGLE'), 'one\ntwo');
+  assert.equal(parsed.values.get('TICK'), 'a\nb');
+  assert.equal(parsed.values.get('AFTER'), 'ok');
+  assert.deepEqual(parsed.lines.get('AFTER'), [8]);
+});
+
+test('parseDotenvDocument keeps multiline assignments as one line entry and round-trips', () => {
+  const input = ['# header', 'JSON="{', '  \\"a\\": 1', '}" # trailing', 'B=2', ''].join('\n');
+
+  const doc = parseDotenvDocument(input);
+  assert.equal(doc.issues.length, 0);
+  const json = doc.lines.find((l) => l.kind === 'assignment' && l.key === 'JSON');
+  assert.ok(json && json.kind === 'assignment');
+  assert.equal(json.line, 2);
+  assert.equal(json.endLine, 4);
+  assert.equal(json.value, '{\n  "a": 1\n}');
+  assert.equal(doc.lines.find((l) => l.kind === 'assignment' && l.key === 'B')?.line, 5);
+  assert.equal(stringifyDotenvDocument(doc), input);
+});
+
+test('parseDotenv reports an unterminated quote without swallowing later lines', () => {
+  const parsed = parseDotenv('A="open\nB=2\n');
+  assert.equal(parsed.errors.length, 1);
+  assert.equal(parsed.values.get('B'), '2');
+});
+
+test('parseDotenv applies dialect key, comment and escape rules', () => {
+  const input = ['app.name-x=1', 'HASH=a#b', 'ESC="x\\ty\\"z"', "SQ='it\\'s'", ''].join('\n');
+
+  const envsitter = parseDotenv(input);
+  assert.ok(envsitter.errors.some((e) => e.line === 1));
+  assert.equal(envsitter.values.get('HASH'), 'a#b');
+  assert.equal(envsitter.values.get('ESC'), 'x\ty"z');
+
+  const dotenv = parseDotenv(input, { dialect: 'dotenv' });
+  assert.equal(dotenv.values.get('app.name-x'), '1');
+  assert.equal(dotenv.values.get('HASH'), 'a');
+  assert.equal(dotenv.values.get('ESC'), 'x\\ty\\"z');
+  assert.equal(dotenv.values.get('SQ'), "it\\'s");
+
+  const python = parseDotenv(input, { dialect: 'python-dotenv' });
+  assert.equal(python.values.get('ESC'), 'x\ty"z');
+  assert.equal(python.values.get('SQ'), "it's");
+});
+
+test('parseDotenv bash dialect rejects shell-unsafe assignments', () => {
+  const parsed = parseDotenv(['A = 1', 'B=two words', 'C="ok $HOME"', 'D=`cmd`', '1BAD=x', 'E="a\\nb"'].join('\n'), { dialect: 'bash' });
+  assert.deepEqual(
+    parsed.errors.map((e) => e.line),
+    [1, 2, 5]
+  );
+  assert.equal(parsed.values.get('C'), 'ok $HOME');
+  assert.equal(parsed.values.get('D'), '`cmd`');
+  assert.equal(parsed.values.get('E'), 'a\\nb');
+});
+
+test('quoteValue round-trips through every dialect', () => {
+  const samples = ['plain', 'has space', 'a#b', 'line1\nline2', 'back\\slash', 'dq"inside', "sq'inside", '$HOME'];
+  for (const dialect of DOTENV_DIALECTS) {
+    for (const value of samples) {
+      const parsed = parseDotenv(`K=${quoteValue(value, dialect)}\n`, { dialect });
+      assert.deepEqual(parsed.errors, [], `${dialect}: ${value}`);
+      assert.equal(parsed.values.get('K'), value, `${dialect}: ${value}`);
+    }
+  }
+});
@@ -0,0 +1,84 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { blake2b } from '../blake2b.js';
+import { EnvSitter } from '../envsitter.js';
+import { fingerprintValue, parseScryptParams } from '../fingerprint.js';
+import { parseEnvLock } from '../lock.js';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+test('blake2b matches the RFC 7693 and keyed reference vectors', () => {
+  assert.equal(
+    hex(blake2b(new TextEncoder().encode('abc'))),
+    'ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d17d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923'
+  );
+  const key = new Uint8Array(64).map((_, i) => i);
+  assert.equal(
+    hex(blake2b(new Uint8Array(0), key)),
+    '10ebb67700b1868efb4417987acf4690ae9d972fb7a590c2f02871799aaa4786b5e996e8f0f4eb981fc214b005f42d2ff4233499391653df7aefcbc13fc51568'
+  );
+  assert.throws(() => blake2b(new Uint8Array(0), new Uint8Array(65)), /at most 64 bytes/);
+});
+
+test('fingerprintValue dispatches per algorithm and validates scrypt parameters', () => {
+  const pepper = new Uint8Array(32).fill(7);
+  assert.equal(hex(fingerprintValue('v', pepper).digestBytes), createHmac('sha256', pepper).update('v').digest('hex'));
+  assert.equal(hex(fingerprintValue('v', pepper, { algorithm: 'hmac-sha512' }).digestBytes), createHmac('sha512', pepper).update('v').digest('hex'));
+  assert.equal(fingerprintValue('v', pepper, { algorithm: 'blake2b' }).digestBytes.length, 32);
+  assert.equal(fingerprintValue('v', new Uint8Array(100), { algorithm: 'blake2b' }).digestBytes.length, 32);
+
+  const slow = fingerprintValue('1234', pepper, { algorithm: 'scrypt', params: { N: 1024, r: 8, p: 1 } });
+  assert.deepEqual(slow.params, { N: 1024, r: 8, p: 1 });
+  assert.equal(slow.digestBytes.length, 32);
+
+  assert.throws(() => parseScryptParams({ N: 1000, r: 8, p: 1 }), /power of two/);
+  assert.throws(() => parseScryptParams({ N: 2 ** 20, r: 8, p: 1 }), /256 MiB/);
+  assert.throws(() => parseEnvLock({ version: 1, keys: { A: { algorithm: 'scrypt', fingerprint: 'x', pepperId: 'p', lengthBucket: '0', shape: 'empty' } } }), /Lock key A: scrypt N/);
+});
+
+test('fingerprints record their algorithm and stored fingerprints are matched with it', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'envsitter-fp-'));
+  const envPath = join(dir, '.env');
+  await writeFile(envPath, 'API_KEY=sk-live-0123456789abcdef\nADMIN_PIN=1234\n', 'utf8');
+  const es = EnvSitter.fromDotenvFile(envPath);
+  const options = {
+    pepper: { pepperFilePath: join(dir, 'pepper') },
+    algorithm: { algorithm: 'blake2b' },
+    algorithmRules: [{ keys: /PIN|PASSWORD/, algorithm: { algorithm: 'scrypt', params: { N: 1024, r: 8, p: 1 } } }]
+  } as const;
+
+  const fast = await es.fingerprintKey('API_KEY', options);
+  const slow = await es.fingerprintKey('ADMIN_PIN', options);
+  assert.equal(fast.algorithm, 'blake2b');
+  assert.equal(fast.params, undefined);
+  assert.equal(slow.algorithm, 'scrypt');
+  assert.deepEqual(slow.params, { N: 1024, r: 8, p: 1 });
+
+  const pepperOnly = { pepper: options.pepper };
+  assert.equal(await es.matchKey('ADMIN_PIN', { op: 'is_equal', ...slow }, pepperOnly), true);
+  assert.equal(await es.matchKey('API_KEY', { op: 'is_equal', ...fast }, pepperOnly), true);
+  assert.equal(await es.matchKey('API_KEY', { op: 'is_equal', fingerprint: fast.fingerprint }, pepperOnly), false);
+  assert.equal(await es.matchKey('ADMIN_PIN', { op: 'fingerprint_is_equal', ...slow }, pepperOnly), true);
+  assert.deepEqual(
+    (await es.matchKeyBulk(['ADMIN_PIN', 'API_KEY'], { op: 'is_equal', ...slow }, pepperOnly)).map((m) => m.match),
+    [true, false]
+  );
+
+  const lock = await es.snapshot(options);
+  assert.equal(lock.keys.ADMIN_PIN?.algorithm, 'scrypt');
+  assert.deepEqual(parseEnvLock(JSON.parse(JSON.stringify(lock))), lock);
+  assert.equal((await es.verify(lock, pepperOnly)).ok, true);
+
+  const { lock: migrated, statuses } = await es.refingerprintLock(lock, { ...pepperOnly, algorithm: { algorithm: 'hmac-sha512' } });
+  assert.deepEqual(statuses, [
+    { key: 'ADMIN_PIN', status: 'rekeyed' },
+    { key: 'API_KEY', status: 'rekeyed' }
+  ]);
+  assert.equal(migrated.keys.ADMIN_PIN?.algorithm, 'hmac-sha512');
+  assert.equal(migrated.keys.ADMIN_PIN?.params, undefined);
+  assert.equal((await es.refingerprintLock(lock, pepperOnly)).statuses.every((s) => s.status === 'current'), true);
+});
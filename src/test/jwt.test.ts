@@ -0,0 +1,90 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { EnvSitter } from '../envsitter.js';
+import { inspectJwt, isJwtExpired, jwtExpiresWithin } from '../jwt.js';
+
+function makeJwt(header: Record<string, unknown>, payload: Record<string, unknown>, signature = 'c2lnbmF0dXJl'): string {
+  const encode = (obj: Record<string, unknown>) => Buffer.from(JSON.stringify(obj), 'utf8').toString('base64url');
+  return `${encode(header)}.${encode(payload)}.${signature}`;
+}
+
+const now = new Date('2026-06-01T00:00:00Z');
+const seconds = (iso: string) => Date.parse(iso) / 1000;
+
+test('inspectJwt returns header and time metadata only', () => {
+  const token = makeJwt(
+    { alg: 'RS256', typ: 'JWT', kid: 'key-1' },
+    { iss: 'https://auth.example.com', aud: ['api', 'admin'], sub: 'user-42', iat: seconds('2026-01-01T00:00:00Z'), exp: seconds('2027-01-01T00:00:00Z') }
+  );
+
+  assert.deepEqual(inspectJwt(token, { now }), {
+    alg: 'RS256',
+    typ: 'JWT',
+    kid: 'key-1',
+    iss: 'https://auth.example.com',
+    aud: ['api', 'admin'],
+    issuedAt: '2026-01-01T00:00:00.000Z',
+    expiresAt: '2027-01-01T00:00:00.000Z',
+    findings: []
+  });
+
+  const hashed = inspectJwt(token, { now, claimPepper: new TextEncoder().encode('pepper') });
+  assert.notEqual(hashed?.iss, 'https://auth.example.com');
+  assert.equal(hashed?.iss, inspectJwt(makeJwt({ alg: 'HS256' }, { iss: 'https://auth.example.com' }), { claimPepper: new TextEncoder().encode('pepper') })?.iss);
+  assert.ok(!JSON.stringify(hashed).includes('admin'));
+
+  assert.equal(inspectJwt('a.b.c'), undefined);
+  assert.equal(inspectJwt('not-a-jwt'), undefined);
+});
+
+test('inspectJwt reports expired, expiring_soon and alg_none findings', () => {
+  const expired = makeJwt({ alg: 'HS256' }, { exp: seconds('2026-05-01T00:00:00Z') });
+  const soon = makeJwt({ alg: 'HS256' }, { exp: seconds('2026-06-10T00:00:00Z') });
+  const unsigned = makeJwt({ alg: 'none' }, { sub: 'x' }, '');
+
+  assert.deepEqual(inspectJwt(expired, { now })?.findings, ['expired']);
+  assert.deepEqual(inspectJwt(soon, { now })?.findings, ['expiring_soon']);
+  assert.deepEqual(inspectJwt(soon, { now, expiringWithinDays: 7 })?.findings, []);
+  assert.deepEqual(inspectJwt(unsigned, { now })?.findings, ['alg_none']);
+
+  assert.equal(isJwtExpired(expired, now), true);
+  assert.equal(isJwtExpired(soon, now), false);
+  assert.equal(jwtExpiresWithin(soon, 10, now), true);
+  assert.equal(jwtExpiresWithin(soon, 5, now), false);
+  assert.equal(jwtExpiresWithin(unsigned, 365, now), false);
+});
+
+test('EnvSitter scan inspects JWTs and matcher ops answer expiry questions', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'envsitter-'));
+  const filePath = join(dir, '.env');
+  const expired = makeJwt({ alg: 'HS256', typ: 'JWT' }, { exp: seconds('2020-01-01T00:00:00Z') });
+  const valid = makeJwt({ alg: 'HS256', typ: 'JWT' }, { exp: seconds('2099-01-01T00:00:00Z') });
+  await writeFile(filePath, `OLD_TOKEN=${expired}\nNEW_TOKEN=${valid}\nPORT=3000\n`, 'utf8');
+
+  const es = EnvSitter.fromDotenvFile(filePath);
+
+  const findings = await es.scan({ detect: ['jwt'], jwt: true });
+  assert.deepEqual(
+    findings.map((f) => [f.key, f.jwt?.findings]),
+    [
+      ['OLD_TOKEN', ['expired']],
+      ['NEW_TOKEN', []]
+    ]
+  );
+  assert.equal((await es.scan({ detect: ['jwt'] }))[0]?.jwt, undefined);
+
+  assert.equal(await es.matchKey('OLD_TOKEN', { op: 'jwt_expired' }), true);
+  assert.equal(await es.matchKey('NEW_TOKEN', { op: 'jwt_expired' }), false);
+  assert.equal(await es.matchKey('PORT', { op: 'jwt_expired' }), false);
+  assert.deepEqual(
+    (await es.matchKeyAll({ op: 'jwt_expires_within', days: 30 })).map((m) => [m.key, m.match]),
+    [
+      ['NEW_TOKEN', false],
+      ['OLD_TOKEN', true],
+      ['PORT', false]
+    ]
+  );
+});
@@ -0,0 +1,238 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { promisify } from 'node:util';
+import { EnvSitter } from '../envsitter.js';
+import { isGitignored, parseGitignore } from '../leaks/gitignore.js';
+import { buildNeedles, NeedleScanner, scanStreamForNeedles } from '../leaks/needles.js';
+import { RedactStream } from '../leaks/redact.js';
+import { parsePrecommitAllowlist } from '../leaks/staged.js';
+
+const SECRET = 'sk-live/abc+def=123';
+
+function gitIn(dir: string) {
+  return (...args: string[]) =>
+    promisify(execFile)('git', ['-C', dir, '-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args]);
+}
+
+test('NeedleScanner finds matches split across chunks exactly once, with line and column', () => {
+  const needles = buildNeedles(new Map([['API_KEY', SECRET]]));
+  assert.deepEqual(
+    needles.map((n) => [n.encoding, n.bytes.toString()]),
+    [
+      ['raw', SECRET],
+      ['base64', 'c2stbGl2ZS9hYmMrZGVmPTEyM'],
+      ['base64', 'NrLWxpdmUvYWJjK2RlZj0xMj'],
+      ['base64', 'zay1saXZlL2FiYytkZWY9MTIz'],
+      ['url', 'sk-live%2Fabc%2Bdef%3D123']
+    ]
+  );
+
+  const text = `first line\nconst key = "${SECRET}";\n\nlog ${Buffer.from(SECRET).toString('base64')}\n`;
+  for (const size of [1, 3, 7, 64]) {
+    const scanner = new NeedleScanner(needles);
+    const hits = [];
+    for (let i = 0; i < text.length; i += size) hits.push(...scanner.push(Buffer.from(text.slice(i, i + size))));
+    assert.deepEqual(
+      hits.map((h) => [h.key, h.encoding, h.line, h.column]),
+      [
+        ['API_KEY', 'raw', 2, 14],
+        ['API_KEY', 'base64', 4, 5]
+      ],
+      `chunk size ${size}`
+    );
+  }
+
+  assert.deepEqual(buildNeedles(new Map([['SHORT', 'abc']])), []);
+  assert.equal(buildNeedles(new Map([['SHORT', 'abc']]), { minLength: 3 }).length, 4);
+});
+
+test('base64 needles find a value at any alignment inside a larger payload', async () => {
+  const needles = buildNeedles(new Map([['API_KEY', SECRET]]));
+  const basicAuth = `Authorization: Basic ${Buffer.from(`user:${SECRET}`).toString('base64')}\n`;
+  const echoed = `${Buffer.from(`${SECRET}\n`).toString('base64')}\n`;
+  const urlSafe = `token=${Buffer.from(`ab${SECRET}`).toString('base64url')}\n`;
+
+  const hits = await scanStreamForNeedles(Readable.from([Buffer.from(basicAuth + echoed + urlSafe)]), needles);
+  assert.deepEqual(
+    hits.map((h) => [h.encoding, h.line]),
+    [
+      ['base64', 1],
+      ['base64', 2],
+      ['base64', 3]
+    ]
+  );
+});
+
+test('RedactStream replaces raw and encoded values across chunk boundaries', async () => {
+  const values = new Map([
+    ['API_KEY', SECRET],
+    ['API_KEY_LONG', `${SECRET}-v2`],
+    ['PORT', '3000']
+  ]);
+  const text = `GET /?k=${encodeURIComponent(SECRET)} key=${SECRET}-v2 b64=${Buffer.from(SECRET).toString('base64')} port=3000 ${SECRET}`;
+  const expected =
+    'GET /?k=[REDACTED:API_KEY] key=[REDACTED:API_KEY_LONG] b64=[REDACTED:API_KEY]w== port=3000 [REDACTED:API_KEY]';
+
+  for (const size of [1, 5, 13, 1024]) {
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < text.length; i += size) chunks.push(Buffer.from(text.slice(i, i + size)));
+
+    const redactor = new RedactStream(values);
+    const out: Buffer[] = [];
+    for await (const chunk of Readable.from(chunks).pipe(redactor)) out.push(chunk as Buffer);
+    assert.equal(Buffer.concat(out).toString('utf8'), expected, `chunk size ${size}`);
+    assert.equal(redactor.redactions, 4);
+  }
+});
+
+test('RedactStream replaces a value base64-encoded after other bytes, as in HTTP Basic auth', async () => {
+  const header = `Authorization: Basic ${Buffer.from(`user:${SECRET}`).toString('base64')}\n`;
+  const redactor = new RedactStream(new Map([['API_KEY', SECRET]]));
+  const out: Buffer[] = [];
+  for await (const chunk of Readable.from([Buffer.from(header)]).pipe(redactor)) out.push(chunk as Buffer);
+
+  assert.equal(Buffer.concat(out).toString('utf8'), 'Authorization: Basic dXNlcjp[REDACTED:API_KEY]\n');
+  assert.equal(redactor.redactions, 1);
+});
+
+test('gitignore rules follow git semantics for the common patterns', () => {
+  const root = parseGitignore('# comment\nnode_modules/\n*.log\n!keep.log\n/build\ndocs/**/*.md\n');
+  const nested = parseGitignore('fixtures\n', 'packages/app');
+
+  assert.equal(isGitignored('node_modules', true, [root]), true);
+  assert.equal(isGitignored('node_modules', false, [root]), false);
+  assert.equal(isGitignored('a/b/debug.log', false, [root]), true);
+  assert.equal(isGitignored('keep.log', false, [root]), false);
+  assert.equal(isGitignored('build', true, [root]), true);
+  assert.equal(isGitignored('src/build', true, [root]), false);
+  assert.equal(isGitignored('docs/a/b/readme.md', false, [root]), true);
+  assert.equal(isGitignored('docs/readme.md', false, [root]), true);
+  assert.equal(isGitignored('packages/app/fixtures', true, [root, nested]), true);
+  assert.equal(isGitignored('packages/lib/fixtures', true, [root, nested]), false);
+});
+
+test('EnvSitter findLeaks walks the tree, honours .gitignore and skips excluded files', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'envsitter-leaks-'));
+  const envPath = join(dir, '.env');
+  await writeFile(envPath, `API_KEY=${SECRET}\nPORT=3000\nDEBUG=true\n`, 'utf8');
+  await writeFile(join(dir, '.gitignore'), 'ignored/\n', 'utf8');
+  await mkdir(join(dir, 'src'));
+  await mkdir(join(dir, 'ignored'));
+  await mkdir(join(dir, 'test', 'fixtures'), { recursive: true });
+  await writeFile(join(dir, 'src', 'client.ts'), `export const port = 3000;\nconst k = '${SECRET}';\n`, 'utf8');
+  await writeFile(join(dir, 'test', 'fixtures', 'req.json'), JSON.stringify({ url: `https://x.test/?k=${encodeURIComponent(SECRET)}` }), 'utf8');
+  await writeFile(join(dir, 'ignored', 'dump.txt'), SECRET, 'utf8');
+
+  const result = await EnvSitter.fromDotenvFile(envPath).findLeaks({ root: dir, exclude: [envPath] });
+  assert.equal(result.filesScanned, 3);
+  assert.deepEqual(result.findings, [
+    { file: 'src/client.ts', line: 2, column: 12, key: 'API_KEY', encoding: 'raw' },
+    { file: 'test/fixtures/req.json', line: 1, column: 27, key: 'API_KEY', encoding: 'url' }
+  ]);
+  assert.ok(!JSON.stringify(result).includes(SECRET));
+});
+
+test('EnvSitter findGitLeaks reports committed env files and historic blobs holding current values', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'envsitter-git-'));
+  const git = gitIn(dir);
+
+  await git('init', '-q');
+  await writeFile(join(dir, '.env'), `API_KEY=${SECRET}\n`, 'utf8');
+  await writeFile(join(dir, '.env.example'), 'API_KEY=\n', 'utf8');
+  await writeFile(join(dir, 'config.js'), `module.exports = { key: '${SECRET}' };\n`, 'utf8');
+  await git('add', '-A');
+  await git('commit', '-q', '-m', 'initial');
+  await git('rm', '-q', '--cached', '.env');
+  await rm(join(dir, 'config.js'));
+  await writeFile(join(dir, '.gitignore'), '.env\n', 'utf8');
+  await git('add', '-A');
+  await git('commit', '-q', '-m', 'remove secrets');
+  const first = (await git('rev-list', '--max-parents=0', 'HEAD')).stdout.trim();
+
+  const result = await EnvSitter.fromDotenvFile(join(dir, '.env')).findGitLeaks({ root: dir });
+  assert.equal(result.commitsScanned, 2);
+  assert.deepEqual(result.envFiles, [{ commit: first, path: '.env' }]);
+  assert.deepEqual(result.findings, [
+    { commit: first, path: '.env', key: 'API_KEY', encoding: 'raw' },
+    { commit: first, path: 'config.js', key: 'API_KEY', encoding: 'raw' }
+  ]);
+  assert.ok(!JSON.stringify(result).includes(SECRET));
+});
+
+test('EnvSitter findGitLeaks scans a merge conflict resolution without re-crediting the merged branch', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'envsitter-git-merge-'));
+  const git = gitIn(dir);
+
+  await git('init', '-q');
+  await writeFile(join(dir, 'config.js'), "module.exports = { key: 'base' };\n", 'utf8');
+  await git('add', '-A');
+  await git('commit', '-q', '-m', 'initial');
+  await git('checkout', '-q', '-b', 'side');
+  await writeFile(join(dir, 'config.js'), "module.exports = { key: 'side' };\n", 'utf8');
+  await writeFile(join(dir, 'side.txt'), 'side only\n', 'utf8');
+  await git('add', '-A');
+  await git('commit', '-q', '-m', 'side');
+  await git('checkout', '-q', '-');
+  await writeFile(join(dir, 'config.js'), "module.exports = { key: 'main' };\n", 'utf8');
+  await git('commit', '-q', '-am', 'main');
+  await assert.rejects(git('merge', '-q', 'side'));
+  await writeFile(join(dir, 'config.js'), `module.exports = { key: '${SECRET}' };\n`, 'utf8');
+  await git('add', '-A');
+  await git('commit', '-q', '--no-edit');
+  const merge = (await git('rev-parse', 'HEAD')).stdout.trim();
+  const side = (await git('rev-parse', 'side')).stdout.trim();
+
+  await writeFile(join(dir, '.env'), `API_KEY=${SECRET}\nSIDE=side only\n`, 'utf8');
+  const result = await EnvSitter.fromDotenvFile(join(dir, '.env')).findGitLeaks({ root: dir });
+  assert.equal(result.commitsScanned, 4);
+  assert.deepEqual(
+    result.findings,
+    [
+      { commit: merge, path: 'config.js', key: 'API_KEY', encoding: 'raw' },
+      { commit: side, path: 'side.txt', key: 'SIDE', encoding: 'raw' }
+    ].sort((a, b) => a.commit.localeCompare(b.commit))
+  );
+});
+
+test('EnvSitter findStagedLeaks blocks env and pepper files and reports staged values, honouring the allowlist', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'envsitter-staged-'));
+  const git = gitIn(dir);
+  await git('init', '-q');
+  const envPath = join(dir, '.env');
+  await writeFile(envPath, `API_KEY=${SECRET}\nDEMO_TOKEN=demo-token-value\n`, 'utf8');
+  await mkdir(join(dir, '.envsitter'));
+  await mkdir(join(dir, 'docs'));
+  await writeFile(join(dir, '.envsitter', 'pepper'), 'cGVwcGVyLXBlcHBlci1wZXBwZXI=\n', 'utf8');
+  await writeFile(join(dir, '.env.example'), 'API_KEY=\n', 'utf8');
+  await writeFile(join(dir, 'app.js'), `// config\nconst key = "${SECRET}";\n`, 'utf8');
+  await writeFile(join(dir, 'docs', 'setup.md'), 'Use DEMO_TOKEN=demo-token-value\n', 'utf8');
+  await writeFile(join(dir, 'unstaged.js'), SECRET, 'utf8');
+  await git('add', '.env', '.env.example', '.envsitter/pepper', 'app.js', 'docs/setup.md');
+
+  const envsitter = EnvSitter.fromDotenvFile(envPath);
+  const result = await envsitter.findStagedLeaks({ root: dir });
+  assert.equal(result.filesScanned, 3);
+  assert.deepEqual(result.blocked, [
+    { path: '.env', reason: 'env_file' },
+    { path: '.envsitter/pepper', reason: 'pepper_file' }
+  ]);
+  assert.deepEqual(result.findings, [
+    { path: 'app.js', line: 2, column: 14, key: 'API_KEY', encoding: 'raw' },
+    { path: 'docs/setup.md', line: 1, column: 16, key: 'DEMO_TOKEN', encoding: 'raw' }
+  ]);
+  assert.ok(!JSON.stringify(result).includes(SECRET));
+
+  assert.deepEqual(parsePrecommitAllowlist('# shared fixtures\n.env  # local only\ndocs/** DEMO_TOKEN, OTHER\n'), [
+    { pattern: '.env' },
+    { pattern: 'docs/**', keys: ['DEMO_TOKEN', 'OTHER'] }
+  ]);
+  await writeFile(join(dir, '.envsitter', 'allowlist'), '.env\n.envsitter/pepper\ndocs/** DEMO_TOKEN\n', 'utf8');
+  const allowed = await envsitter.findStagedLeaks({ root: dir });
+  assert.deepEqual(allowed.blocked, []);
+  assert.deepEqual(allowed.findings.map((f) => f.path), ['app.js']);
+});
@@ -0,0 +1,55 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { EnvSitter } from '../envsitter.js';
+import { parseEnvLock, stringifyEnvLock } from '../lock.js';
+
+test('parseEnvLock rejects malformed lock files', () => {
+  const entry = { algorithm: 'hmac-sha256', fingerprint: 'abc', pepperId: 'p1', lengthBucket: '8-15', shape: 'string' };
+  assert.deepEqual(parseEnvLock({ version: 1, keys: { A: entry } }).keys.A, entry);
+  assert.throws(() => parseEnvLock({ keys: {} }), /version/);
+  assert.throws(() => parseEnvLock({ version: 1, keys: { A: { ...entry, algorithm: 'md5' } } }), /Lock key A: unsupported algorithm/);
+  assert.throws(() => parseEnvLock({ version: 1, keys: { A: { ...entry, lengthBucket: '9' } } }), /lengthBucket/);
+});
+
+test('snapshot records value-free metadata and verify reports added, removed and changed keys', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'envsitter-lock-'));
+  const pepper = { pepperFilePath: join(dir, 'pepper') };
+  const envPath = join(dir, '.env');
+  await writeFile(envPath, 'PORT=3000\nAPI_KEY=sk-live-0123456789abcdef\nDEBUG=false\nOLD=1\n', 'utf8');
+
+  const lock = await EnvSitter.fromDotenvFile(envPath).snapshot({ pepper });
+  const text = stringifyEnvLock(lock);
+  assert.deepEqual(Object.keys(lock.keys), ['API_KEY', 'DEBUG', 'OLD', 'PORT']);
+  assert.equal(lock.keys.API_KEY?.lengthBucket, '16-31');
+  assert.equal(lock.keys.API_KEY?.shape, 'string');
+  assert.equal(lock.keys.DEBUG?.shape, 'boolean');
+  assert.equal(lock.keys.API_KEY?.fingerprint.length, 43);
+  assert.ok(!text.includes('sk-live') && !text.includes('3000'));
+  assert.deepEqual(parseEnvLock(JSON.parse(text)), lock);
+  assert.equal((await EnvSitter.fromDotenvFile(envPath).verify(lock, { pepper })).ok, true);
+
+  await writeFile(envPath, 'PORT=3001\nAPI_KEY=short\nDEBUG=false\nNEW=x\n', 'utf8');
+  const result = await EnvSitter.fromDotenvFile(envPath).verify(lock, { pepper });
+  assert.equal(result.ok, false);
+  assert.deepEqual(
+    result.keys.map((k) => [k.key, k.status]),
+    [
+      ['API_KEY', 'changed'],
+      ['DEBUG', 'unchanged'],
+      ['NEW', 'added'],
+      ['OLD', 'removed'],
+      ['PORT', 'changed']
+    ]
+  );
+  assert.deepEqual(result.keys[0]?.current, { lengthBucket: '1-7', shape: 'string' });
+  assert.deepEqual([result.added, result.removed, result.changed, result.unverifiable, result.unchanged], [1, 1, 2, 0, 1]);
+
+  const otherPepper = { pepperFilePath: join(dir, 'other', 'pepper') };
+  const unverifiable = await EnvSitter.fromDotenvFile(envPath).verify(lock, { pepper: otherPepper, keysFilter: /^DEBUG$/ });
+  assert.deepEqual(unverifiable.keys, [
+    { key: 'DEBUG', status: 'unverifiable', locked: { lengthBucket: '1-7', shape: 'boolean' }, current: { lengthBucket: '1-7', shape: 'boolean' } }
+  ]);
+});
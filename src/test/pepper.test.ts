@@ -1,18 +1,27 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { mkdtemp, readFile } from 'node:fs/promises';
+import { mkdir, mkdtemp, open, readFile, stat, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
-import { resolvePepper } from '../pepper.js';
+import { EnvSitter } from '../envsitter.js';
+import { decodePepper, importPepper, projectPepperFilePath, resolvePepper, rotatePepper } from '../pepper.js';
+import { exportPepper, generatePepperIdentity, parsePepperExport, unwrapPepperExport } from '../pepper-export.js';
 
 test('resolvePepper reads from env when set', async () => {
   const prev = process.env.ENVSITTER_PEPPER;
-  process.env.ENVSITTER_PEPPER = 'unit-test-pepper';
+  process.env.ENVSITTER_PEPPER = 'unit-test-pepper-7Kq2xZ';
 
   try {
     const pepper = await resolvePepper({ createIfMissing: false });
     assert.equal(pepper.source, 'env');
-    assert.equal(new TextDecoder().decode(pepper.pepperBytes), 'unit-test-pepper');
+    assert.equal(pepper.envVarName, 'ENVSITTER_PEPPER');
+    assert.equal(new TextDecoder().decode(pepper.pepperBytes), 'unit-test-pepper-7Kq2xZ');
+
+    process.env.ENVSITTER_PEPPER = 'hex:00112233445566778899aabbccddeeff';
+    assert.deepEqual((await resolvePepper({ createIfMissing: false })).pepperBytes, new Uint8Array(Buffer.from('00112233445566778899aabbccddeeff', 'hex')));
+
+    process.env.ENVSITTER_PEPPER = 'short-pepper';
+    await assert.rejects(resolvePepper({ createIfMissing: false }), /ENVSITTER_PEPPER: Pepper is too short/);
   } finally {
     if (prev === undefined) delete process.env.ENVSITTER_PEPPER;
     else process.env.ENVSITTER_PEPPER = prev;
@@ -44,3 +53,129 @@ test('resolvePepper creates a pepper file when missing', async () => {
     else process.env.ENV_SITTER_PEPPER = prevEnvSitterPepperAlt;
   }
 });
+
+test('rotatePepper retires the old pepper with a grace window and refingerprint rekeys stored fingerprints', async () => {
+  const prevEnvSitterPepper = process.env.ENVSITTER_PEPPER;
+  const prevEnvSitterPepperAlt = process.env.ENV_SITTER_PEPPER;
+  delete process.env.ENVSITTER_PEPPER;
+  delete process.env.ENV_SITTER_PEPPER;
+
+  try {
+    const dir = await mkdtemp(join(tmpdir(), 'envsitter-'));
+    const pepperFilePath = join(dir, 'pepper');
+    const envPath = join(dir, '.env');
+    await writeFile(envPath, 'API_KEY=abc123\nPORT=3000\n', 'utf8');
+    const envsitter = EnvSitter.fromDotenvFile(envPath);
+
+    const before = await envsitter.fingerprintKey('API_KEY', { pepper: { pepperFilePath } });
+    assert.equal(before.pepperSource, 'file');
+
+    const now = new Date('2026-01-01T00:00:00Z');
+    const rotation = await rotatePepper({ pepperFilePath, graceDays: 10, now });
+    assert.equal(rotation.retiredPepperId, before.pepperId);
+    assert.equal(rotation.acceptUntil, '2026-01-11T00:00:00.000Z');
+    assert.equal((await stat(rotation.keyringFilePath)).mode & 0o777, 0o600);
+
+    const inGrace = { pepper: { pepperFilePath, now: new Date('2026-01-05T00:00:00Z') } };
+    const resolved = await resolvePepper(inGrace.pepper);
+    assert.equal(resolved.source, 'keyring');
+    assert.equal(resolved.pepperId, rotation.activePepperId);
+    assert.deepEqual(resolved.retired.map((r) => r.pepperId), [before.pepperId]);
+
+    const stored = { op: 'fingerprint_is_equal', fingerprint: before.fingerprint, pepperId: before.pepperId } as const;
+    assert.equal(await envsitter.matchKey('API_KEY', stored, inGrace), true);
+    assert.equal(await envsitter.matchKey('PORT', stored, inGrace), false);
+    assert.equal(await envsitter.matchKey('API_KEY', stored, { pepper: { pepperFilePath, now: new Date('2026-02-01T00:00:00Z') } }), false);
+
+    const result = await envsitter.refingerprint([before, { key: 'PORT', fingerprint: before.fingerprint }, { key: 'GONE', fingerprint: 'x' }], inGrace);
+    assert.deepEqual(result.statuses, [
+      { key: 'API_KEY', status: 'rekeyed' },
+      { key: 'PORT', status: 'stale' },
+      { key: 'GONE', status: 'missing' }
+    ]);
+    assert.equal(result.fingerprints[0]?.pepperId, rotation.activePepperId);
+    assert.deepEqual(result.fingerprints[0], await envsitter.fingerprintKey('API_KEY', inGrace));
+
+    const again = await rotatePepper({ pepperFilePath, now: new Date('2026-03-01T00:00:00Z') });
+    assert.deepEqual(again.droppedPepperIds, [before.pepperId]);
+    assert.equal(again.retiredPepperId, rotation.activePepperId);
+  } finally {
+    if (prevEnvSitterPepper === undefined) delete process.env.ENVSITTER_PEPPER;
+    else process.env.ENVSITTER_PEPPER = prevEnvSitterPepper;
+
+    if (prevEnvSitterPepperAlt === undefined) delete process.env.ENV_SITTER_PEPPER;
+    else process.env.ENV_SITTER_PEPPER = prevEnvSitterPepperAlt;
+  }
+});
+
+test('exportPepper wraps a pepper for a passphrase or an X25519 recipient and importPepper installs it with mode 0600', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'envsitter-pepper-'));
+  const source = await resolvePepper({ pepperFilePath: join(dir, 'alice', 'pepper') });
+  const passphrase = 'orbit-lantern-47-quietly';
+
+  const byPassphrase = parsePepperExport(JSON.parse(JSON.stringify(await exportPepper(source.pepperBytes, { passphrase, scryptParams: { N: 16384, r: 8, p: 1 } }))));
+  assert.equal(byPassphrase.pepperId, source.pepperId);
+  assert.ok(!JSON.stringify(byPassphrase).includes(Buffer.from(source.pepperBytes).toString('base64')));
+  assert.deepEqual(await unwrapPepperExport(byPassphrase, { passphrase }), source.pepperBytes);
+  await assert.rejects(unwrapPepperExport(byPassphrase, { passphrase: 'orbit-lantern-47-loudly' }), /Could not decrypt/);
+  await assert.rejects(unwrapPepperExport({ ...byPassphrase, pepperId: '0000000000000000' }, { passphrase }), /Could not decrypt/);
+  await assert.rejects(exportPepper(source.pepperBytes, { passphrase: 'hunter2' }), /Passphrase is too weak/);
+  assert.throws(() => parsePepperExport({ ...byPassphrase, wrap: { ...byPassphrase.wrap, N: 1024 } }), /scrypt N is below/);
+
+  const bob = generatePepperIdentity();
+  const byKey = await exportPepper(source.pepperBytes, { recipient: bob.publicKeyPem });
+  assert.deepEqual(await unwrapPepperExport(byKey, { identity: bob.privateKeyPem }), source.pepperBytes);
+  await assert.rejects(unwrapPepperExport(byKey, { identity: generatePepperIdentity().privateKeyPem }), /Could not decrypt/);
+  await assert.rejects(unwrapPepperExport(byKey, { passphrase }), /encrypted to an X25519 key/);
+
+  const bobPepperFile = join(dir, 'bob', 'pepper');
+  const imported = await importPepper(await unwrapPepperExport(byKey, { identity: bob.privateKeyPem }), { pepperFilePath: bobPepperFile });
+  assert.deepEqual(imported, { pepperFilePath: bobPepperFile, pepperId: source.pepperId, unchanged: false });
+  assert.equal((await stat(bobPepperFile)).mode & 0o777, 0o600);
+  assert.equal((await resolvePepper({ pepperFilePath: bobPepperFile, createIfMissing: false })).pepperId, source.pepperId);
+  assert.equal((await importPepper(source.pepperBytes, { pepperFilePath: bobPepperFile })).unchanged, true);
+
+  const other = new Uint8Array(32).map((_, i) => (i * 37 + 11) % 256);
+  await assert.rejects(importPepper(other, { pepperFilePath: bobPepperFile }), /holds a different pepper/);
+  assert.equal((await importPepper(other, { pepperFilePath: bobPepperFile, force: true })).replacedPepperId, source.pepperId);
+  await assert.rejects(importPepper(new Uint8Array(12).fill(1), { pepperFilePath: bobPepperFile }), /too short/);
+  await assert.rejects(importPepper(new Uint8Array(32).fill(1), { pepperFilePath: bobPepperFile }), /too predictable/);
+});
+
+test('resolvePepper reads command and fd providers, retries failed commands, decodes prefixes and finds the project pepper at the repository root', async () => {
+  assert.equal(Buffer.from(decodePepper('base64:AAEC', 'raw')).toString('hex'), '000102');
+  assert.equal(new TextDecoder().decode(decodePepper('raw:hex:abc', 'base64')), 'hex:abc');
+  assert.throws(() => decodePepper('hex:abc', 'raw'), /not valid hex/);
+  assert.throws(() => decodePepper('not base64!', 'base64'), /not valid base64/);
+
+  const pepperText = 'base64:' + Buffer.from(new Uint8Array(32).map((_, i) => (i * 97 + 13) % 256)).toString('base64');
+  const fromCommand = await resolvePepper({ provider: { type: 'command', command: process.execPath, args: ['-e', `console.log(${JSON.stringify(pepperText)})`] } });
+  assert.equal(fromCommand.source, 'command');
+  assert.equal(fromCommand.pepperBytes.length, 32);
+
+  const dir = await mkdtemp(join(tmpdir(), 'envsitter-provider-'));
+  await writeFile(join(dir, 'pepper.txt'), `${pepperText}\n`, 'utf8');
+  const handle = await open(join(dir, 'pepper.txt'), 'r');
+  try {
+    const fromFd = await resolvePepper({ provider: { type: 'fd', fd: handle.fd } });
+    assert.deepEqual([fromFd.source, fromFd.pepperId], ['fd', fromCommand.pepperId]);
+  } finally {
+    await handle.close();
+  }
+
+  const latePath = join(dir, 'late.txt');
+  const late = { type: 'command', command: process.execPath, args: ['-e', `process.stdout.write(require('fs').readFileSync(${JSON.stringify(latePath)}, 'utf8'))`] } as const;
+  await assert.rejects(resolvePepper({ provider: late }));
+  await writeFile(latePath, pepperText, 'utf8');
+  assert.equal((await resolvePepper({ provider: late })).pepperId, fromCommand.pepperId);
+
+  const repo = join(dir, 'repo');
+  const nested = join(repo, 'packages', 'api');
+  await mkdir(join(repo, '.git'), { recursive: true });
+  await mkdir(nested, { recursive: true });
+  assert.equal(await projectPepperFilePath(nested), join(repo, '.envsitter', 'pepper'));
+  await mkdir(join(repo, 'packages', '.envsitter'));
+  await writeFile(join(repo, 'packages', '.envsitter', 'pepper'), 'x', 'utf8');
+  assert.equal(await projectPepperFilePath(nested), join(repo, 'packages', '.envsitter', 'pepper'));
+  await assert.rejects(resolvePepper({ cwd: nested, envVarNames: [] }), /Pepper file .*packages.*: Pepper is too short/);
+});
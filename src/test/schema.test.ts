@@ -0,0 +1,137 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { EnvSitter } from '../envsitter.js';
+import { checkEnvSchema, inferEnvSchema, parseEnvSchema } from '../schema.js';
+
+test('parseEnvSchema rejects malformed schemas', () => {
+  assert.throws(() => parseEnvSchema({ keys: {} }), /version/);
+  assert.throws(() => parseEnvSchema({ version: 1, keys: { A: { type: 'date' } } }), /Schema key A: type/);
+  assert.throws(() => parseEnvSchema({ version: 1, keys: { A: { type: 'enum' } } }), /enum requires values/);
+  assert.throws(() => parseEnvSchema({ version: 1, keys: { A: { pattern: '(' } } }), /valid regular expression/);
+  assert.throws(() => parseEnvSchema({ version: 1, keys: { A: { minLength: -1 } } }), /non-negative integer/);
+});
+
+test('checkEnvSchema reports a reason code per key', () => {
+  const schema = parseEnvSchema({
+    version: 1,
+    keys: {
+      DATABASE_URL: { type: 'url' },
+      PORT: { type: 'port' },
+      DEBUG: { type: 'bool', required: false },
+      LOG_LEVEL: { type: 'enum', values: ['debug', 'info'] },
+      TIMEOUT: { type: 'duration' },
+      REQUEST_ID: { type: 'uuid', required: false },
+      API_KEY: { minLength: 8, pattern: 'sk-[a-z0-9]+' },
+      ADMIN_EMAIL: { type: 'email' },
+      FEATURES: { type: 'json' },
+      SECRET: {},
+      OPTIONAL: { required: false }
+    }
+  });
+
+  const values = new Map([
+    ['DATABASE_URL', 'postgres://db.internal:5432/app'],
+    ['PORT', '70000'],
+    ['DEBUG', ''],
+    ['LOG_LEVEL', 'trace'],
+    ['TIMEOUT', '1h30m'],
+    ['REQUEST_ID', '0b9e4f3c-2f4e-4a43-9a5e-3b1f6f0f7c21'],
+    ['API_KEY', 'sk-ABC123'],
+    ['ADMIN_EMAIL', 'ops@example.com'],
+    ['FEATURES', '{"beta":true}'],
+    ['SECRET', ''],
+    ['EXTRA', 'x']
+  ]);
+
+  const result = checkEnvSchema(values, schema);
+  assert.equal(result.ok, false);
+  assert.deepEqual(
+    Object.fromEntries(result.results.map((r) => [r.key, r.reason])),
+    {
+      ADMIN_EMAIL: 'ok',
+      API_KEY: 'pattern_mismatch',
+      DATABASE_URL: 'ok',
+      DEBUG: 'ok',
+      EXTRA: 'unknown_key',
+      FEATURES: 'ok',
+      LOG_LEVEL: 'not_allowed',
+      OPTIONAL: 'optional_missing',
+      PORT: 'invalid_type',
+      REQUEST_ID: 'ok',
+      SECRET: 'empty',
+      TIMEOUT: 'ok'
+    }
+  );
+  assert.equal(result.results.find((r) => r.key === 'OPTIONAL')?.ok, true);
+  assert.ok(!JSON.stringify(result).includes('sk-ABC123'));
+
+  const lenient = checkEnvSchema(new Map([['EXTRA', 'x']]), { version: 1, allowUnknown: true, keys: {} });
+  assert.deepEqual(lenient, { ok: true, results: [{ key: 'EXTRA', ok: true, reason: 'unknown_key' }] });
+});
+
+test('EnvSitter.checkSchema evaluates a schema against its source', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'envsitter-'));
+  const filePath = join(dir, '.env');
+  await writeFile(filePath, 'PORT=8080\n', 'utf8');
+
+  const es = EnvSitter.fromDotenvFile(filePath);
+  const result = await es.checkSchema({ version: 1, keys: { PORT: { type: 'port' }, HOST: {} } });
+
+  assert.equal(result.ok, false);
+  assert.deepEqual(result.results, [
+    { key: 'HOST', ok: false, reason: 'missing' },
+    { key: 'PORT', ok: true, reason: 'ok' }
+  ]);
+});
+
+test('inferEnvSchema proposes types and required keys without values, and merges with an existing schema', () => {
+  const dev = new Map([
+    ['DATABASE_URL', 'postgres://localhost:5432/app'],
+    ['PORT', '3000'],
+    ['WORKERS', '2'],
+    ['DEBUG', 'true'],
+    ['LOG_LEVEL', 'debug'],
+    ['API_TOKEN', 'dev-token'],
+    ['SENTRY_DSN', '']
+  ]);
+  const prod = new Map([
+    ['DATABASE_URL', 'postgres://db.internal:5432/app'],
+    ['PORT', '8080'],
+    ['WORKERS', '8'],
+    ['DEBUG', 'false'],
+    ['LOG_LEVEL', 'warn'],
+    ['API_TOKEN', 'prod-token'],
+    ['SENTRY_DSN', 'https://sentry.example/1'],
+    ['CACHE_TTL', '5m']
+  ]);
+
+  const inferred = inferEnvSchema([dev, prod]);
+  assert.deepEqual(inferred.schema, {
+    version: 1,
+    keys: {
+      API_TOKEN: {},
+      CACHE_TTL: { required: false, type: 'duration' },
+      DATABASE_URL: { type: 'url' },
+      DEBUG: { type: 'bool' },
+      LOG_LEVEL: {},
+      PORT: { type: 'port' },
+      SENTRY_DSN: { required: false, type: 'url' },
+      WORKERS: { type: 'int' }
+    }
+  });
+  assert.ok(!JSON.stringify(inferred).includes('prod-token'));
+
+  const withEnums = inferEnvSchema([dev, prod], { enums: true });
+  assert.deepEqual(withEnums.schema.keys.LOG_LEVEL, { type: 'enum', values: ['debug', 'warn'] });
+  assert.deepEqual(withEnums.schema.keys.API_TOKEN, {});
+
+  const merged = inferEnvSchema([dev, prod], { existing: { version: 1, allowUnknown: true, keys: { PORT: { type: 'int', description: 'HTTP port' }, LEGACY: {} } } });
+  assert.deepEqual(merged.schema.keys.PORT, { type: 'int', description: 'HTTP port' });
+  assert.deepEqual(merged.schema.keys.LEGACY, {});
+  assert.equal(merged.schema.allowUnknown, true);
+  assert.deepEqual(merged.kept, ['LEGACY', 'PORT']);
+  assert.ok(!merged.added.includes('PORT'));
+});
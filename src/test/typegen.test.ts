@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { generateEnvAccessor, generateProcessEnvDeclaration, schemaFromKeys } from '../typegen.js';
+import type { EnvSchema } from '../schema.js';
+
+const schema: EnvSchema = {
+  version: 1,
+  keys: {
+    PORT: { type: 'port' },
+    DATABASE_URL: { type: 'url', description: 'Primary database' },
+    DEBUG: { type: 'bool', required: false },
+    LOG_LEVEL: { type: 'enum', values: ['debug', 'info'] },
+    'my.key': {}
+  }
+};
+
+test('generateProcessEnvDeclaration augments NodeJS.ProcessEnv with key names and types only', () => {
+  const dts = generateProcessEnvDeclaration(schema);
+
+  assert.match(dts, /declare global \{\n {2}namespace NodeJS \{\n {4}interface ProcessEnv \{/);
+  assert.match(dts, /\/\*\* Primary database \(url\) \*\/\n {6}DATABASE_URL: string;/);
+  assert.match(dts, /DEBUG\?: string;/);
+  assert.match(dts, /LOG_LEVEL: "debug" \| "info";/);
+  assert.match(dts, /"my\.key": string;/);
+  assert.ok(dts.indexOf('DATABASE_URL') < dts.indexOf('PORT'));
+  assert.ok(dts.endsWith('export {};\n'));
+
+  assert.equal(generateProcessEnvDeclaration(schemaFromKeys(['B', 'A'])), generateProcessEnvDeclaration({ version: 1, keys: { A: {}, B: {} } }));
+});
+
+test('generateEnvAccessor parses typed keys and only emits the helpers it uses', () => {
+  const ts = generateEnvAccessor(schema);
+
+  assert.match(ts, /readonly PORT: number;/);
+  assert.match(ts, /readonly DEBUG: boolean \| undefined;/);
+  assert.match(ts, /PORT: parsePort\("PORT", required\(source, "PORT"\)\)/);
+  assert.match(ts, /DEBUG: mapOptional\(optional\(source, "DEBUG"\), \(value\) => parseBool\("DEBUG", value\)\)/);
+  assert.match(ts, /LOG_LEVEL: parseEnum\("LOG_LEVEL", required\(source, "LOG_LEVEL"\), \["debug", "info"\] as const\)/);
+  assert.match(ts, /function parseInteger\(/);
+  assert.doesNotMatch(ts, /function parseJson\(/);
+
+  const untyped = generateEnvAccessor(schemaFromKeys(['A']));
+  assert.doesNotMatch(untyped, /function (parse|optional|mapOptional)/);
+});
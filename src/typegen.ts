@@ -0,0 +1,232 @@
+import type { EnvSchema, EnvSchemaKey } from './schema.js';
+
+export const DEFAULT_DECLARATION_FILE = 'env.d.ts';
+
+const HEADER = '// Generated by envsitter typegen. Do not edit by hand.';
+
+/** Builds a schema with one required, untyped key per name, for sources that have no schema file. */
+export function schemaFromKeys(keys: readonly string[]): EnvSchema {
+  return { version: 1, keys: Object.fromEntries([...keys].sort().map((key) => [key, {}])) };
+}
+
+function propertyName(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function isRequired(spec: EnvSchemaKey): boolean {
+  return spec.required !== false;
+}
+
+function sortedEntries(schema: EnvSchema): Array<[string, EnvSchemaKey]> {
+  return Object.entries(schema.keys).sort(([a], [b]) => a.localeCompare(b));
+}
+
+function docComment(spec: EnvSchemaKey, indent: string): string[] {
+  const parts = [spec.description, spec.type && spec.type !== 'string' ? `(${spec.type})` : undefined].filter(
+    (p): p is string => typeof p === 'string' && p.length > 0
+  );
+  if (parts.length === 0) return [];
+  return [`${indent}/** ${parts.join(' ').replace(/\*\//g, '*\\/')} */`];
+}
+
+function enumUnion(values: readonly string[]): string {
+  return values.map((v) => JSON.stringify(v)).join(' | ');
+}
+
+/**
+ * Emits a declaration file that augments `NodeJS.ProcessEnv`. Values stay strings (that is what
+ * `process.env` holds); enums narrow to their allowed literals. Optional keys are declared optional.
+ */
+export function generateProcessEnvDeclaration(schema: EnvSchema): string {
+  const lines = [HEADER, '', 'declare global {', '  namespace NodeJS {', '    interface ProcessEnv {'];
+
+  for (const [key, spec] of sortedEntries(schema)) {
+    const type = spec.type === 'enum' && spec.values && spec.values.length > 0 ? enumUnion(spec.values) : 'string';
+    lines.push(...docComment(spec, '      '));
+    lines.push(`      ${propertyName(key)}${isRequired(spec) ? '' : '?'}: ${type};`);
+  }
+
+  lines.push('    }', '  }', '}', '', 'export {};', '');
+  return lines.join('\n');
+}
+
+function accessorType(spec: EnvSchemaKey): string {
+  const base =
+    spec.type === 'bool'
+      ? 'boolean'
+      : spec.type === 'int' || spec.type === 'number' || spec.type === 'port'
+        ? 'number'
+        : spec.type === 'json'
+          ? 'unknown'
+          : spec.type === 'enum' && spec.values && spec.values.length > 0
+            ? enumUnion(spec.values)
+            : 'string';
+  return isRequired(spec) ? base : `${base} | undefined`;
+}
+
+type AccessorHelper =
+  | 'required'
+  | 'optional'
+  | 'mapOptional'
+  | 'parseBool'
+  | 'parseNumber'
+  | 'parseInteger'
+  | 'parsePort'
+  | 'parseUrl'
+  | 'parseJson'
+  | 'parseEnum';
+
+const ACCESSOR_HELPERS: ReadonlyArray<{ name: AccessorHelper; requires: readonly AccessorHelper[]; source: string }> = [
+  {
+    name: 'required',
+    requires: [],
+    source: `function required(source: EnvRecord, name: string): string {
+  const value = source[name];
+  if (value === undefined || value === '') throw new Error(\`Missing environment variable \${name}\`);
+  return value;
+}`
+  },
+  {
+    name: 'optional',
+    requires: [],
+    source: `function optional(source: EnvRecord, name: string): string | undefined {
+  const value = source[name];
+  return value === undefined || value === '' ? undefined : value;
+}`
+  },
+  {
+    name: 'mapOptional',
+    requires: [],
+    source: `function mapOptional<T>(value: string | undefined, parse: (value: string) => T): T | undefined {
+  return value === undefined ? undefined : parse(value);
+}`
+  },
+  {
+    name: 'parseBool',
+    requires: [],
+    source: `function parseBool(name: string, value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'true') return true;
+  if (normalized === 'false') return false;
+  throw new Error(\`Environment variable \${name} must be true or false\`);
+}`
+  },
+  {
+    name: 'parseNumber',
+    requires: [],
+    source: `function parseNumber(name: string, value: string): number {
+  const n = Number(value.trim());
+  if (value.trim() === '' || !Number.isFinite(n)) throw new Error(\`Environment variable \${name} must be a number\`);
+  return n;
+}`
+  },
+  {
+    name: 'parseInteger',
+    requires: ['parseNumber'],
+    source: `function parseInteger(name: string, value: string): number {
+  const n = parseNumber(name, value);
+  if (!Number.isInteger(n)) throw new Error(\`Environment variable \${name} must be an integer\`);
+  return n;
+}`
+  },
+  {
+    name: 'parsePort',
+    requires: ['parseInteger', 'parseNumber'],
+    source: `function parsePort(name: string, value: string): number {
+  const n = parseInteger(name, value);
+  if (n < 1 || n > 65535) throw new Error(\`Environment variable \${name} must be a port (1-65535)\`);
+  return n;
+}`
+  },
+  {
+    name: 'parseUrl',
+    requires: [],
+    source: `function parseUrl(name: string, value: string): string {
+  try {
+    new URL(value);
+  } catch {
+    throw new Error(\`Environment variable \${name} must be a URL\`);
+  }
+  return value;
+}`
+  },
+  {
+    name: 'parseJson',
+    requires: [],
+    source: `function parseJson(name: string, value: string): unknown {
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    throw new Error(\`Environment variable \${name} must be valid JSON\`);
+  }
+}`
+  },
+  {
+    name: 'parseEnum',
+    requires: [],
+    source: `function parseEnum<T extends string>(name: string, value: string, allowed: readonly T[]): T {
+  const found = allowed.find((v) => v === value);
+  if (found === undefined) throw new Error(\`Environment variable \${name} must be one of: \${allowed.join(', ')}\`);
+  return found;
+}`
+  }
+];
+
+function parserFor(spec: EnvSchemaKey): AccessorHelper | undefined {
+  if (spec.type === 'bool') return 'parseBool';
+  if (spec.type === 'int') return 'parseInteger';
+  if (spec.type === 'number') return 'parseNumber';
+  if (spec.type === 'port') return 'parsePort';
+  if (spec.type === 'url') return 'parseUrl';
+  if (spec.type === 'json') return 'parseJson';
+  if (spec.type === 'enum' && spec.values && spec.values.length > 0) return 'parseEnum';
+  return undefined;
+}
+
+function accessorExpression(key: string, spec: EnvSchemaKey): { expression: string; helpers: AccessorHelper[] } {
+  const name = JSON.stringify(key);
+  const reader: AccessorHelper = isRequired(spec) ? 'required' : 'optional';
+  const raw = `${reader}(source, ${name})`;
+
+  const parser = parserFor(spec);
+  if (!parser) return { expression: raw, helpers: [reader] };
+
+  const extra = parser === 'parseEnum' ? `, [${(spec.values ?? []).map((v) => JSON.stringify(v)).join(', ')}] as const` : '';
+  if (isRequired(spec)) return { expression: `${parser}(${name}, ${raw}${extra})`, helpers: [reader, parser] };
+  return { expression: `mapOptional(${raw}, (value) => ${parser}(${name}, value${extra}))`, helpers: [reader, 'mapOptional', parser] };
+}
+
+/**
+ * Emits a typed `env.ts` accessor: `loadEnv()` reads `process.env` (or a given record), parses
+ * bool/number/int/port/url/json/enum keys and throws on missing or invalid values. Error messages name the key only.
+ */
+export function generateEnvAccessor(schema: EnvSchema): string {
+  const entries = sortedEntries(schema).map(([key, spec]) => ({ key, spec, ...accessorExpression(key, spec) }));
+
+  const used = new Set<AccessorHelper>();
+  for (const entry of entries) {
+    for (const helper of entry.helpers) {
+      used.add(helper);
+      for (const dependency of ACCESSOR_HELPERS.find((h) => h.name === helper)?.requires ?? []) used.add(dependency);
+    }
+  }
+
+  const lines = [HEADER, '', 'type EnvRecord = Readonly<Record<string, string | undefined>>;', ''];
+  for (const helper of ACCESSOR_HELPERS) {
+    if (used.has(helper.name)) lines.push(helper.source, '');
+  }
+
+  lines.push('export type Env = {');
+  for (const { key, spec } of entries) {
+    lines.push(...docComment(spec, '  '));
+    lines.push(`  readonly ${propertyName(key)}: ${accessorType(spec)};`);
+  }
+  lines.push('};', '');
+
+  lines.push('export function loadEnv(source: EnvRecord = process.env): Env {', '  return {');
+  entries.forEach(({ key, expression }, i) => {
+    lines.push(`    ${propertyName(key)}: ${expression}${i < entries.length - 1 ? ',' : ''}`);
+  });
+  lines.push('  };', '}', '');
+  return lines.join('\n');
+}
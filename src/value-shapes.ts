@@ -0,0 +1,54 @@
+export function isNumberLike(value: string): boolean {
+  const trimmed = value.trim();
+  if (trimmed.length === 0) return false;
+
+  if (!/^[+-]?(?:\d+(?:\.\d+)?|\.\d+)$/.test(trimmed)) return false;
+  const n = Number(trimmed);
+  return Number.isFinite(n);
+}
+
+export function isBooleanLike(value: string): boolean {
+  const trimmed = value.trim().toLowerCase();
+  return trimmed === 'true' || trimmed === 'false';
+}
+
+export function looksLikeJwt(value: string): boolean {
+  const parts = value.split('.');
+  if (parts.length !== 3) return false;
+  return parts.every((p) => /^[A-Za-z0-9_-]+$/.test(p) && p.length > 0);
+}
+
+export function looksLikeUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export function looksLikeBase64(value: string): boolean {
+  const trimmed = value.trim();
+  if (!trimmed) return false;
+  if (!/^[A-Za-z0-9+/=]+$/.test(trimmed)) return false;
+  if (trimmed.length % 4 !== 0) return false;
+  try {
+    const decoded = Buffer.from(trimmed, 'base64');
+    return decoded.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export type ValueShape = 'empty' | 'boolean' | 'number' | 'jwt' | 'url' | 'base64' | 'string';
+
+/** Coarse shape of a value, most specific first; safe to report because it never includes the value. */
+export function valueShape(value: string): ValueShape {
+  if (value.length === 0) return 'empty';
+  if (isBooleanLike(value)) return 'boolean';
+  if (isNumberLike(value)) return 'number';
+  if (looksLikeJwt(value)) return 'jwt';
+  if (looksLikeUrl(value)) return 'url';
+  if (looksLikeBase64(value)) return 'base64';
+  return 'string';
+}